@@ -0,0 +1,130 @@
+/**
+ * Static analysis of macroexpanded Jaspr code.
+ *
+ * The analyzer finds names that would raise `NoBinding` if they were evaluated,
+ * without evaluating anything. It follows the lexical bindings introduced by
+ * `$closure` definitions; every other name must be bound in the `value`
+ * context of the surrounding scope.
+ */
+
+import {Jaspr, JasprArray, Deferred, isArray, isObject, magicSymbol} from './Jaspr'
+import {Scope} from './Interpreter'
+import {SourceLocation, locationOf} from './SourceLocation'
+import * as Names from './ReservedNames'
+
+/** A name found by {@link findUndefinedNames} */
+export interface UndefinedName {
+  name: string
+  /** The location of the innermost code around the name's first occurrence
+   *  whose location is known, if any */
+  at: SourceLocation | null
+}
+
+/** Special forms whose arguments are all evaluated as ordinary expressions */
+const evaluatingForms = new Set([
+  Names.if_, Names.then, Names.apply, Names.dynamicGet, Names.dynamicLet,
+  Names.junction, Names.eval_, Names.macroexpand, Names.arrayMake,
+  Names.objectMake
+])
+
+/** Tests whether `name` is bound in the `value` context of `scope` */
+function isBound(scope: Scope, name: string): boolean {
+  const value = scope.value ? scope.value[name] : undefined
+  return value !== undefined && typeof value !== 'function'
+}
+
+/**
+ * Returns the names bound in the `value` context by the `$closure` definitions
+ * `defs`.
+ */
+function closureBindings(defs: Jaspr): string[] {
+  if (!isObject(defs)) return []
+  return Object.keys(defs).filter(name => {
+    const lastDot = name.lastIndexOf('.')
+    return lastDot < 0 || name.slice(0, lastDot) === 'value'
+  }).map(name => name.slice(name.lastIndexOf('.') + 1))
+}
+
+/**
+ * Finds every free name in the macroexpanded code `code` that is not bound in
+ * `scope`, then calls `cb` with those names, in the order they first occur,
+ * and where they first occur.
+ *
+ * Code that is not fully resolved yet is analyzed once all of it is available.
+ * Closures that define macros are skipped, because their bodies are not
+ * expanded until they are evaluated.
+ */
+export function findUndefinedNames(
+  scope: Scope,
+  code: Jaspr | Deferred,
+  cb: (names: UndefinedName[]) => void
+): void {
+  const found = new Map<string, SourceLocation | null>(), pending: Deferred[] = []
+
+  function walk(
+    code: Jaspr | Deferred,
+    bound: Set<string>,
+    at: SourceLocation | null
+  ): void {
+    if (code instanceof Deferred) {
+      if (code.value === undefined) return void pending.push(code)
+      code = code.value
+    }
+    if (typeof code === 'string') {
+      if (code !== Names.args && !bound.has(code) && !isBound(scope, code) &&
+          !found.has(code)) {
+        found.set(code, at)
+      }
+      return
+    }
+    at = locationOf(code) || at
+    if (isArray(code)) {
+      if (code.length === 0) return
+      let hd = code[0]
+      if (hd instanceof Deferred) {
+        if (hd.value === undefined) return void pending.push(hd)
+        hd = hd.value
+      }
+      if (hd === '') return
+      if (typeof hd === 'string' && hd.startsWith(Names.prefix)) {
+        if (hd === Names.closure) walkClosure(code, bound, at)
+        else if (evaluatingForms.has(hd)) {
+          for (let i = 1; i < code.length; i++) walk(code[i], bound, at)
+        }
+      } else for (let x of code) walk(x, bound, at)
+    } else if (isObject(code) && !(magicSymbol in code)) {
+      for (let key in code) walk(code[key], bound, at)
+    }
+  }
+
+  function walkClosure(
+    code: JasprArray,
+    bound: Set<string>,
+    at: SourceLocation | null
+  ): void {
+    let [_, defs, body, fields] = code
+    walk(fields, bound, at)
+    if (defs instanceof Deferred) {
+      if (defs.value === undefined) return void pending.push(defs)
+      defs = defs.value
+    }
+    if (!isObject(defs) ||
+        Object.keys(defs).some(name => name.startsWith('macro.'))) {
+      return
+    }
+    const inner = new Set([...bound, ...closureBindings(defs)])
+    for (let name in defs) {
+      if (!/^(doc|test|type)[.]/.test(name)) walk(defs[name], inner, at)
+    }
+    walk(body, inner, at)
+  }
+
+  walk(code, new Set(), null)
+  if (pending.length === 0) {
+    return cb(Array.from(found, ([name, at]) => ({name, at})))
+  }
+  let remaining = pending.length
+  for (let d of pending) d.await(() => {
+    if (--remaining === 0) findUndefinedNames(scope, code, cb)
+  })
+}
@@ -0,0 +1,204 @@
+/**
+ * On-disk cache for modules loaded from remote sources, and for precompiled
+ * modules.
+ *
+ * Remote module sources are stored by content: each file is named after the
+ * SHA-256 hash of its contents, so a cached file can always be checked against
+ * the hash recorded in a lockfile.
+ *
+ * Precompiled modules (parsed sources and macroexpanded definitions, each with
+ * a table of their source locations) are stored as JSON, named after a hash of
+ * everything they were compiled from. They are never invalidated explicitly;
+ * any change to their inputs changes their hash, and outdated entries are
+ * simply never read again.
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {createHash} from 'crypto'
+import {Json, ErrCallback} from './Jaspr'
+
+/**
+ * Returns the default cache directory: the `JASPR_CACHE` environment variable
+ * if it is set, or `~/.jaspr/cache` otherwise.
+ */
+export function defaultCacheDir(): string {
+  return process.env.JASPR_CACHE || path.join(os.homedir(), '.jaspr', 'cache')
+}
+
+/** Returns the hex-encoded SHA-256 hash of `data`. */
+export function sha256(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/** Creates the directory `dir` and any missing parent directories. */
+export function mkdirp(dir: string, cb: (err: NodeJS.ErrnoException | null) => void): void {
+  fs.mkdir(dir, err => {
+    if (err == null || err.code === 'EEXIST') return cb(null)
+    if (err.code !== 'ENOENT') return cb(err)
+    mkdirp(path.dirname(dir), err => {
+      if (err) cb(err)
+      else fs.mkdir(dir, err => cb(err && err.code !== 'EEXIST' ? err : null))
+    })
+  })
+}
+
+/** Removes `file`, and everything in it if it is a directory, if it exists. */
+export function rmrf(file: string, cb: (err: NodeJS.ErrnoException | null) => void): void {
+  fs.lstat(file, (err, stats) => {
+    if (err) return cb(err.code === 'ENOENT' ? null : err)
+    if (!stats.isDirectory()) return fs.unlink(file, err => cb(err))
+    fs.readdir(file, (err, names) => {
+      if (err) return cb(err)
+      const next = (i: number): void => {
+        if (i === names.length) return fs.rmdir(file, err => cb(err))
+        rmrf(path.join(file, names[i]), err => err ? cb(err) : next(i + 1))
+      }
+      next(0)
+    })
+  })
+}
+
+/**
+ * Converts a Node filesystem error into a Jaspr error object.
+ *
+ * @param err The Node error.
+ * @param errType The Jaspr error type.
+ * @param why The error message.
+ * @param filename The file that was being read or written.
+ */
+export function fsError(
+  err: NodeJS.ErrnoException,
+  errType: 'ReadFailed' | 'WriteFailed',
+  why: string,
+  filename: string
+) {
+  return {
+    err: errType, why, filename,
+    nodeError: {
+      name: err.name,
+      message: err.message,
+      errno: err.errno || null,
+      path: err.path || null
+    }
+  }
+}
+
+let tmpCounter = 0
+
+/** Returns the path of the cached file with hash `hash` and extension `ext`. */
+export function contentPath(cacheDir: string, hash: string, ext: string): string {
+  return path.join(cacheDir, 'content', hash + ext)
+}
+
+/**
+ * Stores `data` in the cache, then calls `cb` with its hash and the path of the
+ * cached file.
+ *
+ * @param cacheDir The cache directory.
+ * @param data The file contents to store.
+ * @param ext The extension of the cached file. Jaspr source files are parsed
+ *   based on their extension, so this should be `.jaspr` or `.jaspr.md`.
+ */
+export function storeContent(
+  cacheDir: string,
+  data: Buffer,
+  ext: string,
+  cb: ErrCallback<{hash: string, filename: string}>
+): void {
+  const hash = sha256(data), filename = contentPath(cacheDir, hash, ext)
+  const tmp = `${filename}.${process.pid}.${tmpCounter++}.tmp`
+  mkdirp(path.dirname(filename), err => {
+    if (err) return cb(fsError(err, 'WriteFailed',
+      'failed to create cache directory', path.dirname(filename)), null)
+    fs.writeFile(tmp, data, err => {
+      if (err) return cb(fsError(err, 'WriteFailed',
+        'failed to write cached file', tmp), null)
+      fs.rename(tmp, filename, err => {
+        if (err) cb(fsError(err, 'WriteFailed',
+          'failed to write cached file', filename), null)
+        else cb(null, {hash, filename})
+      })
+    })
+  })
+}
+
+/**
+ * Looks up the cached file with hash `hash` and extension `ext`, and checks
+ * that its contents still match the hash. Calls `cb` with the file's path, or
+ * with `null` if it is not in the cache.
+ */
+export function findContent(
+  cacheDir: string,
+  hash: string,
+  ext: string,
+  cb: ErrCallback<string>
+): void {
+  const filename = contentPath(cacheDir, hash, ext)
+  fs.readFile(filename, (err, data) => {
+    if (err) {
+      if (err.code === 'ENOENT') cb(null, null)
+      else cb(fsError(err, 'ReadFailed', 'failed to read cached file', filename), null)
+    } else if (sha256(data) !== hash) cb({
+      err: 'BadModule', why: 'cached file does not match its hash',
+      filename, expected: hash, actual: sha256(data),
+      help: 'The cache is corrupted. Delete the file to download it again.'
+    }, null)
+    else cb(null, filename)
+  })
+}
+
+/** Returns the path of the precompiled JSON file with hash `hash`. */
+export function compiledPath(cacheDir: string, section: string, hash: string): string {
+  return path.join(cacheDir, section, hash + '.json')
+}
+
+/**
+ * Reads the precompiled JSON file with hash `hash` from `section` of the cache.
+ * Calls `cb` with `null` if it is not in the cache, or cannot be parsed.
+ */
+export function findCompiled(
+  cacheDir: string,
+  section: string,
+  hash: string,
+  cb: ErrCallback<Json>
+): void {
+  const filename = compiledPath(cacheDir, section, hash)
+  fs.readFile(filename, (err, data) => {
+    if (err) {
+      if (err.code === 'ENOENT') cb(null, null)
+      else cb(fsError(err, 'ReadFailed', 'failed to read cached file', filename), null)
+      return
+    }
+    let json: Json
+    try { json = JSON.parse(data.toString('utf8')) }
+    catch (ex) { return cb(null, null) }
+    cb(null, json)
+  })
+}
+
+/** Stores `json` as the precompiled JSON file with hash `hash`. */
+export function storeCompiled(
+  cacheDir: string,
+  section: string,
+  hash: string,
+  json: Json,
+  cb: ErrCallback<string>
+): void {
+  const filename = compiledPath(cacheDir, section, hash)
+  const tmp = `${filename}.${process.pid}.${tmpCounter++}.tmp`
+  mkdirp(path.dirname(filename), err => {
+    if (err) return cb(fsError(err, 'WriteFailed',
+      'failed to create cache directory', path.dirname(filename)), null)
+    fs.writeFile(tmp, JSON.stringify(json), err => {
+      if (err) return cb(fsError(err, 'WriteFailed',
+        'failed to write cached file', tmp), null)
+      fs.rename(tmp, filename, err => {
+        if (err) cb(fsError(err, 'WriteFailed',
+          'failed to write cached file', filename), null)
+        else cb(null, filename)
+      })
+    })
+  })
+}
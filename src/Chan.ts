@@ -2,7 +2,11 @@ import {Jaspr, JasprObject, JasprError, magicSymbol, isObject} from './Jaspr'
 import * as Names from './ReservedNames'
 import {remove} from 'lodash'
 
+let nextChanId = 1
+
 class Chan {
+  /** Unique number that identifies this channel in debug output */
+  readonly id = nextChanId++
   sendQueue: [Jaspr, (sent: boolean) => void][] = []
   recvQueue: Array<(val: {value: Jaspr, done: boolean}) => void> = []
   magicObject: JasprObject
@@ -0,0 +1,40 @@
+/**
+ * Command-line options of the `jaspr` command.
+ *
+ * Source files are given as plain arguments. Options that can be given more
+ * than once take exactly one value each time (`--break foo --break bar`), so
+ * that the arguments after them are still read as source files.
+ */
+
+import * as commandLineArgs from 'command-line-args'
+
+export const optionDefs: commandLineArgs.OptionDefinition[] = [
+  {name: 'convert', alias: 'c', type: String},
+  {name: 'literate', alias: 'l', type: Boolean},
+  {name: 'repl', alias: 'r', type: Boolean},
+  {name: 'stdlib', type: String},
+  {name: 'path', alias: 'p', type: String, lazyMultiple: true},
+  {name: 'deps', type: Boolean},
+  {name: 'check', type: Boolean},
+  {name: 'check-types', type: Boolean},
+  {name: 'jit', type: Boolean},
+  {name: 'debug', type: Boolean},
+  {name: 'break', type: String, lazyMultiple: true},
+  {name: 'trace', type: Boolean},
+  {name: 'trace-file', type: String},
+  {name: 'trace-name', type: String, lazyMultiple: true},
+  {name: 'profile', type: Boolean},
+  {name: 'profile-file', type: String},
+  {name: 'format', type: String},
+  {name: 'cache', type: Boolean},
+  {name: 'help', type: Boolean},
+  {name: 'src', type: String, multiple: true, defaultOption: true}
+]
+
+/**
+ * Parses the command-line arguments `argv` (by default, the arguments of the
+ * running process) into an object with a property for each option given.
+ */
+export function parseOptions(argv?: string[]): commandLineArgs.CommandLineOptions {
+  return commandLineArgs(optionDefs, {argv})
+}
@@ -0,0 +1,241 @@
+/**
+ * A compiler from macroexpanded Jaspr code to JavaScript.
+ *
+ * A {@link Compiler} is attached to an environment as its
+ * {@link Env.compiler}. When a closure is called, its body is compiled into
+ * JavaScript source code, which is turned into a function with `new Function`
+ * (as `NativeSyncFn` does for `$jsSync` code). The compiled function
+ * evaluates the body in the same way as {@link evalExpr}, but without
+ * inspecting the body's shape again on every call.
+ *
+ * Compiled code only evaluates synchronously. Whenever it reaches a deferred
+ * value that it has to inspect (the condition of an `$if`, or a function being
+ * called), it hands the rest of that expression over to the interpreter, which
+ * waits for the value in a new fiber; code that has already run, and its side
+ * effects, is never repeated. Names, `$args`, quoted values, `$if`,
+ * `$then`, calls, and `let`s (closures that are called immediately) are
+ * compiled; every other expression is evaluated by calling {@link evalExpr}.
+ */
+
+import {
+  Jaspr, JasprArray, Deferred, isArray, isObject, toBool
+} from './Jaspr'
+import {
+  Env, Scope, DynamicMap, CompiledFn, CompileHook, evalExpr, evalDefs, call,
+  raise, then, pushFrame, popFrame, getCurrentFrame, hasUnexpandedMacros,
+  isLiteral, isDeferredError
+} from './Interpreter'
+import {locationOf} from './SourceLocation'
+import * as Names from './ReservedNames'
+import * as _ from 'lodash'
+
+/**
+ * Functions called by compiled code. Each one does what {@link evalExpr} does
+ * for one kind of expression.
+ */
+const runtime = {
+  Deferred, evalExpr, evalDefs, pushFrame, popFrame, getCurrentFrame, toBool,
+
+  lookup(env: Env, scope: Scope, dynamics: DynamicMap | undefined, name: string) {
+    const value =
+      (isObject(scope.value) ? scope.value : Object.create(null))[name]
+    if (value === undefined || typeof value === 'function') {
+      return raise(env, dynamics,
+        {err: 'NoBinding', why: 'name not defined', name})
+    } else return value
+  },
+
+  call(
+    env: Env,
+    callee: Jaspr,
+    args: (Jaspr | Deferred)[],
+    dynamics: DynamicMap | undefined
+  ): Jaspr | Deferred {
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i]
+      if (arg instanceof Deferred) arg.await(v => args[i] = v)
+    }
+    return call(env, callee, args, dynamics)
+  },
+
+  /** Calls `callee`, once it resolves, with the arguments in `code`. */
+  callLater(
+    env: Env,
+    scope: Scope,
+    $args: JasprArray,
+    dynamics: DynamicMap | undefined,
+    callee: Deferred,
+    code: JasprArray
+  ): Jaspr | Deferred {
+    return then(env, callee, callee => runtime.call(env, callee,
+        code.slice(1).map(arg => evalExpr(env, scope, $args, dynamics, arg)),
+        dynamics),
+      () => ({action: 'eval', code}))
+  },
+
+  /** Evaluates a branch of the `$if` expression `code`, once `cond` resolves. */
+  ifLater(
+    env: Env,
+    scope: Scope,
+    $args: JasprArray,
+    dynamics: DynamicMap | undefined,
+    cond: Deferred,
+    code: JasprArray
+  ): Jaspr | Deferred {
+    return then(env, cond,
+      cond => evalExpr(env, scope, $args, dynamics, toBool(cond) ? code[2] : code[3]),
+      () => ({action: 'eval', code}))
+  },
+
+  /** Evaluates the second half of the `$then` expression `code`, once `first` resolves. */
+  thenLater(
+    env: Env,
+    scope: Scope,
+    $args: JasprArray,
+    dynamics: DynamicMap | undefined,
+    first: Deferred,
+    code: JasprArray
+  ): Jaspr | Deferred {
+    return then(env, first, () => evalExpr(env, scope, $args, dynamics, code[2]),
+      () => ({action: 'eval', code}))
+  },
+
+  /**
+   * Checks an exception thrown by compiled code. Compiled code only waits for
+   * deferred values through `call`, `evalExpr`, and `then`, which resume just
+   * the subexpression that waited, so a `DeferredError` must never escape from
+   * it: `call` would evaluate the whole body again, repeating side effects.
+   */
+  escaped(e: any): any {
+    return isDeferredError(e)
+      ? new Error('DeferredError escaped from compiled code')
+      : e
+  }
+}
+
+/** Tests whether `code` is a `let`: a closure with no fields that is called immediately. */
+function isLet(code: JasprArray): boolean {
+  const hd = <Jaspr>code[0]
+  if (code.length !== 1 || !isArray(hd) || hd.length !== 4) return false
+  const [closure, defs, , fields] = hd
+  return closure === Names.closure && isObject(<Jaspr>defs) &&
+    isObject(<Jaspr>fields) && _.isEmpty(fields) && !hasUnexpandedMacros(hd)
+}
+
+/** Generates the JavaScript source of a compiled function. */
+class CodeGenerator {
+  /** Values referenced by the generated code, as `c[index]` */
+  readonly constants: (Jaspr | Deferred)[] = []
+  /** Number of temporary variables used by the generated code */
+  temps = 0
+
+  constant(value: Jaspr | Deferred): string {
+    return `c[${this.constants.push(value) - 1}]`
+  }
+
+  temp(): string {
+    return `t${this.temps++}`
+  }
+
+  /**
+   * Returns a JavaScript expression that evaluates `code`, in the scope
+   * `scope` with the arguments `$args` (both JavaScript expressions).
+   */
+  expr(code: Jaspr | Deferred, scope: string, $args: string): string {
+    if (code instanceof Deferred) {
+      if (code.value === undefined) return this.fallback(code, scope, $args)
+      code = code.value
+    }
+    if (isLiteral(code)) {
+      return this.constant(code)
+    } else if (code === Names.args) {
+      return $args
+    } else if (typeof code === 'string') {
+      if (code.startsWith(Names.prefix)) return this.fallback(code, scope, $args)
+      return `R.lookup(env, ${scope}, dynamics, ${JSON.stringify(code)})`
+    } else if (isArray(code) && !code.some(x => x instanceof Deferred)) {
+      const body = this.array(code, scope, $args)
+      if (body === null) return this.fallback(code, scope, $args)
+      if (!locationOf(code)) return body
+      // Located code is a frame, which is the location of raised signals
+      const outer = this.temp(), result = this.temp()
+      return `(${outer} = R.pushFrame(${this.constant(code)}, ${scope}, ${$args}), ` +
+        `${result} = ${body}, R.popFrame(${outer}), ${result})`
+    } else return this.fallback(code, scope, $args)
+  }
+
+  /**
+   * Returns a JavaScript expression that evaluates the array `code`, or null
+   * if it should be interpreted.
+   */
+  private array(code: JasprArray, scope: string, $args: string): string | null {
+    const hd = code[0], c = () => this.constant(code)
+    if (hd === '') {
+      return code.length === 2 ? this.constant(code[1]) : null
+    } else if (hd === Names.if_ && code.length === 4) {
+      const cond = this.temp()
+      return `((${cond} = ${this.expr(code[1], scope, $args)}) instanceof R.Deferred ` +
+        `? R.ifLater(env, ${scope}, ${$args}, dynamics, ${cond}, ${c()}) ` +
+        `: R.toBool(${cond}) ? ${this.expr(code[2], scope, $args)} ` +
+        `: ${this.expr(code[3], scope, $args)})`
+    } else if (hd === Names.then && code.length === 3) {
+      const first = this.temp()
+      return `((${first} = ${this.expr(code[1], scope, $args)}) instanceof R.Deferred ` +
+        `? R.thenLater(env, ${scope}, ${$args}, dynamics, ${first}, ${c()}) ` +
+        `: ${this.expr(code[2], scope, $args)})`
+    } else if (typeof hd === 'string' && hd.startsWith(Names.prefix)) {
+      return null
+    } else if (isLet(code)) {
+      const closure = <JasprArray>hd
+      const newScope = this.temp(), letArgs = this.temp()
+      return `(${newScope} = R.evalDefs(env, ${scope}, ${$args}, dynamics, ` +
+        `${this.constant(closure[1])}), ${letArgs} = [], ` +
+        `${this.expr(closure[2], newScope, letArgs)})`
+    } else {
+      const callee = this.temp()
+      const args = code.slice(1).map(arg => this.expr(arg, scope, $args))
+      return `((${callee} = ${this.expr(hd, scope, $args)}) instanceof R.Deferred ` +
+        `? R.callLater(env, ${scope}, ${$args}, dynamics, ${callee}, ${c()}) ` +
+        `: R.call(env, ${callee}, [${args.join(', ')}], dynamics))`
+    }
+  }
+
+  /** Returns a JavaScript expression that interprets `code`. */
+  private fallback(code: Jaspr | Deferred, scope: string, $args: string): string {
+    return `R.evalExpr(env, ${scope}, ${$args}, dynamics, ${this.constant(code)})`
+  }
+}
+
+export default class Compiler implements CompileHook {
+  private readonly compiled = new WeakMap<object, CompiledFn | null>()
+
+  compile(code: Jaspr): CompiledFn | null {
+    if (code === null || typeof code !== 'object') return null
+    let fn = this.compiled.get(code)
+    if (fn === undefined) {
+      fn = compile(code)
+      this.compiled.set(code, fn)
+    }
+    return fn
+  }
+}
+
+/**
+ * Compiles the macroexpanded closure body `code` into a JavaScript function,
+ * or returns null if there is nothing to gain by compiling it.
+ */
+export function compile(code: Jaspr): CompiledFn | null {
+  if (!isArray(code)) return null
+  const gen = new CodeGenerator()
+  const body = gen.expr(code, 'scope', '$args')
+  const temps = _.range(gen.temps).map(i => `t${i}`)
+  const source = `
+    return function compiled(env, scope, $args, dynamics) {
+      ${temps.length ? `var ${temps.join(', ')};` : ''}
+      var outer = R.getCurrentFrame();
+      try { return ${body}; }
+      catch (e) { throw R.escaped(e); }
+      finally { R.popFrame(outer); }
+    }`
+  return new Function('R', 'c', source)(runtime, gen.constants)
+}
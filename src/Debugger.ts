@@ -0,0 +1,176 @@
+/**
+ * Breakpoints and single-stepping.
+ *
+ * A {@link Debugger} is attached to an environment as its
+ * {@link Env.debugHook}, and is notified before each {@link Frame} (each piece
+ * of code with a known source location) is evaluated. It pauses evaluation at
+ * breakpoints: on entry to a named function, at a `(breakpoint!)` call, or at
+ * a source line. Only the paused fiber stops; other fibers keep running until
+ * the debugger's `onPause` handler continues or steps.
+ */
+
+import * as path from 'path'
+import {Jaspr, Deferred, isArray, magicSymbol} from './Jaspr'
+import {
+  Env, Frame, DebugHook, DynamicMap, isClosure, definitionName
+} from './Interpreter'
+import {NativeSyncFn} from './NativeFn'
+import {locationOf} from './SourceLocation'
+import * as Names from './ReservedNames'
+
+/**
+ * The `breakpoint!` function of `jaspr.debug`. Calling it does nothing, but a
+ * debugger pauses before each call to it.
+ */
+export const breakpoint = new NativeSyncFn(function breakpoint() { return null })
+
+/**
+ * How to continue from a paused frame: `into` pauses at the next frame, `over`
+ * pauses at the next frame that is not part of the paused frame, and `out`
+ * pauses at the next frame that is not part of the paused frame's parent.
+ */
+export type StepMode = 'into' | 'over' | 'out'
+
+/** The reason that a debugger paused */
+export type PauseReason = 'function' | 'line' | 'breakpoint' | 'step'
+
+/** A fiber that is paused by a {@link Debugger} */
+export interface Pause {
+  env: Env
+  frame: Frame
+  dynamics: DynamicMap | undefined
+  reason: PauseReason
+  /** If `reason` is `function`, the name of the function */
+  fn?: string
+  /** The fiber that resolves when the paused fiber continues */
+  fiber: Deferred
+}
+
+/** A source line to break at */
+export interface LineBreakpoint {
+  filename: string
+  line: number
+}
+
+/** Tests whether `a` and `b` are the same code, evaluated the same way. */
+function sameFrame(a: Frame, b: Frame): boolean {
+  return a.code === b.code && a.scope === b.scope && a.$args === b.$args
+}
+
+/** Tests whether `ancestor` is `frame` or one of its parents. */
+function within(frame: Frame, ancestor: Frame): boolean {
+  for (let f: Frame | undefined = frame; f; f = f.parent) {
+    if (sameFrame(f, ancestor)) return true
+  }
+  return false
+}
+
+/**
+ * Tests whether `frame` has a parent in common with `from`, and so is part of
+ * the same computation. Frames of unrelated fibers are not stepped into.
+ */
+function related(frame: Frame, from: Frame): boolean {
+  for (let f: Frame | undefined = from; f; f = f.parent) {
+    if (within(frame, f)) return true
+  }
+  return false
+}
+
+export default class Debugger implements DebugHook {
+  /** Names of functions to break on entry to */
+  readonly functions = new Set<string>()
+  readonly lines: LineBreakpoint[] = []
+  private stepping: {mode: StepMode, from: Frame} | null = null
+  private resuming: Frame | null = null
+
+  /**
+   * @param onPause Called when a fiber pauses, with a callback that continues
+   *   the fiber, optionally stepping to the next frame to pause at.
+   */
+  constructor(
+    readonly onPause: (pause: Pause, resume: (step?: StepMode) => void) => void
+  ) {}
+
+  /**
+   * Adds a breakpoint described by `spec`: either a source line, as
+   * `filename:line`, or the name of a function.
+   */
+  breakAt(spec: string): void {
+    const match = /^(.+):(\d+)$/.exec(spec)
+    if (match) this.lines.push({filename: match[1], line: +match[2]})
+    else this.functions.add(spec)
+  }
+
+  enter(env: Env, frame: Frame, dynamics: DynamicMap | undefined): Deferred | undefined {
+    // A closure's body may be entered twice, once when it is called and once
+    // when it is evaluated, so the resumed frame is skipped until another
+    // frame is entered
+    if (this.resuming) {
+      if (sameFrame(this.resuming, frame)) return undefined
+      this.resuming = null
+    }
+    const found = this.pauseReason(env, frame)
+    if (!found) return undefined
+    const {reason, fn} = found
+    this.stepping = null
+    const fiber = env.defer(() => ({
+      action: 'break', code: frame.code, name: definitionName(env, dynamics),
+      frame, dynamics
+    }))
+    this.onPause({env, frame, dynamics, reason, fn, fiber}, step => {
+      const from = step === 'out' ? frame.parent : frame
+      this.stepping = step && from ? {mode: step, from} : null
+      this.resuming = frame
+      fiber.resolve(null)
+    })
+    return fiber
+  }
+
+  /** Returns the reason to pause at `frame`, or null if there is none. */
+  private pauseReason(
+    env: Env,
+    frame: Frame
+  ): {reason: PauseReason, fn?: string} | null {
+    const {stepping} = this
+    if (stepping && related(frame, stepping.from) &&
+        (stepping.mode === 'into' || !within(frame, stepping.from))) {
+      return {reason: 'step'}
+    }
+    const {code, scope} = frame
+    const value = (name: Jaspr | undefined) => {
+      if (typeof name !== 'string') return undefined
+      const v = scope.value[name]
+      return v instanceof Deferred ? v.value : v
+    }
+    if (isArray(code)) {
+      const hd = code[0]
+      const callee = value(hd instanceof Deferred ? hd.value : hd)
+      if (callee && isClosure(env, callee) &&
+          (<any>callee)[magicSymbol] === breakpoint) {
+        return {reason: 'breakpoint'}
+      }
+    }
+    for (let name of this.functions) {
+      const fn = value(name)
+      if (fn && isClosure(env, fn) && fn[Names.code] === code) {
+        return {reason: 'function', fn: name}
+      }
+    }
+    if (this.lines.length > 0) {
+      const location = locationOf(code)
+      const parent = frame.parent && locationOf(frame.parent.code)
+      if (location && location.filename != null && this.lines.some(b =>
+            b.line === location.line && sameFile(b.filename, location.filename) &&
+            // Only the outermost frame on a line pauses
+            !(parent && parent.line === location.line &&
+              parent.filename === location.filename))) {
+        return {reason: 'line'}
+      }
+    }
+    return null
+  }
+}
+
+function sameFile(a: string, b: string | null): boolean {
+  return b != null && (a === b || path.resolve(a) === path.resolve(b))
+}
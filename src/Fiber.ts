@@ -1,22 +1,37 @@
 import {
-  Jaspr, JasprError, Deferred, Callback, toString, isArray, magicSymbol
+  Jaspr, JasprObject, JasprError, Deferred, Callback, toString, isArray,
+  magicSymbol
 } from './Jaspr'
 import {
-  Env, FiberDescriptor, JasprDynamic, makeDynamic, waitFor
+  Env, FiberDescriptor, JasprDynamic, Diagnostic, DebugHook, ProfileHook,
+  CompileHook, makeDynamic, waitFor
 } from './Interpreter'
 import prettyPrint from './PrettyPrint'
 import * as Names from './ReservedNames'
 import {NativeAsyncFn} from './NativeFn'
 import Chan from './Chan'
+import {SourceLocation, locationOf} from './SourceLocation'
+import {Tracer, TraceEvent, TraceEventInit, summarize} from './Trace'
+import Compiler from './Compiler'
 import chalk from 'chalk'
 import {randomBytes} from 'crypto'
 
+/** The fiber whose value the currently running code is computing, if any */
+let currentFiber: Fiber | null = null
+
+/** The maximum number of fibers printed by {@link Fiber.stackTraceString} */
+const maxTraceLength = 24
+
+let nextFiberId = 1
+
 export class Branch implements Env {
   readonly root: Root
   readonly parent: Branch
   readonly junctionBranches: Branch[]
   canceled = false
   readonly listeners = new Set<() => void>()
+  /** Unresolved fibers created in this branch or its descendants */
+  private readonly branchFibers = new Set<Fiber>()
 
   constructor(root?: Root, parent?: Branch, junction?: Branch[]) {
     if (root && parent) {
@@ -48,6 +63,12 @@ export class Branch implements Env {
         this.parent.removeOnCancel(listener)
       }
       this.listeners.clear()
+      for (let fiber of this.pendingFibers()) {
+        fiber.branch.removeFiber(fiber)
+        if (fiber.traced) this.root.tracer.emit({
+          event: 'cancel', fiber: fiber.id, name: fiber.traceName
+        })
+      }
     }
   }
   onCancel(listener: () => void) {
@@ -64,12 +85,74 @@ export class Branch implements Env {
     }
   }
 
+  /** Returns the unresolved fibers created in this branch or its descendants */
+  pendingFibers(): Iterable<Fiber> {
+    return this.branchFibers
+  }
+
+  /**
+   * Records `fiber`, which was created in this branch, as unresolved in this
+   * branch, its ancestors, and the root's {@link Root.fibers}, so that it can
+   * be forgotten when any of them is canceled.
+   */
+  addFiber(fiber: Fiber): void {
+    for (let b: Branch = this; b !== this.root; b = b.parent) {
+      b.branchFibers.add(fiber)
+    }
+    this.root.fibers.set(fiber.id, fiber)
+  }
+
+  /** Forgets `fiber`, which was created in this branch (see {@link addFiber}) */
+  removeFiber(fiber: Fiber): void {
+    for (let b: Branch = this; b !== this.root; b = b.parent) {
+      b.branchFibers.delete(fiber)
+    }
+    this.root.fibers.delete(fiber.id)
+  }
+
   defer(
     props: () => FiberDescriptor = () => ({action: 'external'})
   ): Fiber {
     return new Fiber(this, props)
   }
 
+  tracing(
+    enabled: boolean,
+    fn: () => Jaspr | Deferred,
+    props: () => FiberDescriptor = () => ({action: 'eval'})
+  ): Fiber {
+    const fiber = new Fiber(this, props, enabled)
+    waitFor(this.within(fiber, fn), x => fiber.resolve(x))
+    return fiber
+  }
+
+  trace(event: TraceEventInit, fiber: Deferred | null = currentFiber): void {
+    const traced = fiber instanceof Fiber ? fiber : null
+    if (!(traced ? traced.traced : this.root.tracer.enabled)) return
+    this.root.tracer.emit(<TraceEvent>Object.assign({}, event, {
+      fiber: traced && traced.id,
+      name: event.name !== undefined ? event.name : traced && traced.traceName
+    }))
+  }
+
+  within<T>(fiber: Deferred, fn: () => T): T {
+    if (!(fiber instanceof Fiber)) return fn()
+    const outer = currentFiber
+    currentFiber = fiber
+    try { return fn() }
+    finally { currentFiber = outer }
+  }
+
+  enter(fiber: Deferred | null): Deferred | null {
+    const outer = currentFiber
+    if (fiber === null || fiber instanceof Fiber) currentFiber = fiber
+    return outer
+  }
+
+  suspend(fiber: Deferred, on: Deferred): void {
+    if (fiber instanceof Fiber) fiber.awaiting = on
+  }
+
   junction(
     fns: ((env: Env, cb: Callback) => void)[],
     props: () => FiberDescriptor = () => ({action: 'junction'})
@@ -80,13 +163,14 @@ export class Branch implements Env {
     for(let i = 0; i < branches.length; i++) {
       branches[i] = new Branch(this.root, this, branches)
     }
-    fns.forEach((fn, i) => setImmediate(() => fn(branches[i], result => {
-      if (!done) {
-        done = true
-        branches.forEach((b, j) => {if (i !== j) b.cancel()})
-        junction.resolve(result)
-      }
-    })))
+    fns.forEach((fn, i) => setImmediate(() =>
+      this.within(junction, () => fn(branches[i], result => {
+        if (!done) {
+          done = true
+          branches.forEach((b, j) => {if (i !== j) b.cancel()})
+          junction.resolve(result)
+        }
+      }))))
     return junction
   }
   
@@ -98,31 +182,99 @@ export class Branch implements Env {
   get closureName(): string { return this.root.closureName }
   get signalHandlerVar(): JasprDynamic { return this.root.signalHandlerVar }
   get nameVar(): JasprDynamic { return this.root.nameVar }
+  get traceVar(): JasprDynamic { return this.root.traceVar }
+  get traceActive(): boolean { return this.root.traceActive }
+  get checkTypes(): boolean { return this.root.checkTypes }
+  get debugHook(): DebugHook | null { return this.root.debugHook }
+  get profiler(): ProfileHook | null { return this.root.profiler }
+  get compiler(): CompileHook | null { return this.root.compiler }
 
   unhandledError(err: Jaspr, cb: Callback) {
-    this.root.errorHandler(this.root, err, this, cb)
+    this.root.errorHandler(this.root, err, this, cb, currentFiber)
+  }
+
+  reportDiagnostic(diagnostic: Diagnostic) {
+    this.root.reportDiagnostic(diagnostic)
   }
 }
 
 export class Fiber extends Deferred {
   readonly branch: Branch
   readonly props: () => FiberDescriptor
+  /** The fiber whose computation created this fiber, or null if it was not
+   *  created by Jaspr code */
+  readonly parent: Fiber | null
+  /** Unique, increasing number that identifies this fiber */
+  readonly id = nextFiberId++
+  /** Whether events in this fiber are traced (see `Trace.ts`) */
+  readonly traced: boolean
+  /** If this fiber is traced, the name of the definition that spawned it */
+  readonly traceName: string | null = null
+  /** The value this fiber was last suspended on (see {@link Env.suspend}) */
+  awaiting: Deferred | null = null
 
+  /**
+   * @param traced Whether this fiber is traced. By default, it is traced if
+   *   its parent is, or, if it has no parent, if the root's tracer is enabled.
+   */
   constructor(
     branch: Branch,
-    props: () => FiberDescriptor = () => ({action: 'external'})
+    props: () => FiberDescriptor = () => ({action: 'external'}),
+    traced?: boolean
   ) {
     super()
     this.branch = branch
     this.props = props
-
-    // Debug information:
-    //console.log(this.descriptionString())
-    //this.await(v => console.log(prettyPrint(<Jaspr>this.code) + ' -> ' + prettyPrint(v)))
+    this.parent = currentFiber
+    if (!branch.isCanceled()) branch.addFiber(this)
+    const {tracer, profiler} = branch.root
+    if (profiler) profiler.spawn(props().action)
+    this.traced = traced !== undefined ? traced
+      : this.parent ? this.parent.traced : tracer.enabled
+    if (this.traced) {
+      const {action, code, name} = props()
+      tracer.used = true
+      this.traceName = name || (this.parent && this.parent.traceName)
+      tracer.emit({
+        event: 'spawn', fiber: this.id, name: this.traceName,
+        parent: this.parent && this.parent.id, action,
+        code: summarize(code instanceof Fiber ? undefined : code),
+        at: locationOf(code)
+      })
+    }
   }
 
   isCanceled() { return this.branch.isCanceled() }
 
+  resolve(value: Jaspr): void {
+    const {root} = this.branch
+    // Traced before the fiber's listeners run, so that events are in order
+    if (this.traced && this.value === undefined && !this.isCanceled()) {
+      root.tracer.emit({
+        event: 'resolve', fiber: this.id, name: this.traceName,
+        value: summarize(value)
+      })
+    }
+    this.branch.removeFiber(this)
+    super.resolve(value)
+  }
+
+  /**
+   * The unresolved fiber this fiber is suspended on, or that computes the code
+   * this fiber is waiting on, if any
+   */
+  get waitingOn(): Fiber | null {
+    const {awaiting} = this
+    if (awaiting instanceof Fiber && awaiting.value === undefined) return awaiting
+    const {code} = this.props()
+    return code instanceof Fiber && code.value === undefined ? code : null
+  }
+
+  /** Returns the fiber that is currently running, if any. */
+  static current(): Fiber | null {
+    return currentFiber
+  }
+
   descriptionString(color = true, history = new Set<Fiber>()): string {
     if (history.has(this)) {
       return color ? chalk.redBright('(CYCLE DETECTED)') : '(CYCLE DETECTED)'
@@ -154,21 +306,60 @@ export class Fiber extends Deferred {
     return str
   }
 
-  /*stackTrace(): Fiber[] {
-    return [<Fiber>this].concat(this.parent.stackTrace())
+  /**
+   * Returns the chain of fibers that caused this fiber to be created, starting
+   * with this fiber and ending with a fiber that has no parent. If the chain
+   * contains a cycle, it is cut off before the first repeated fiber.
+   */
+  stackTrace(): Fiber[] {
+    const trace: Fiber[] = [], seen = new Set<Fiber>()
+    for (let f: Fiber | null = this; f && !seen.has(f); f = f.parent) {
+      trace.push(f)
+      seen.add(f)
+    }
+    return trace
+  }
+
+  /**
+   * Describes this fiber on a single line: its action, the name of the
+   * definition it belongs to, an abbreviation of its code, and the code's
+   * source location.
+   */
+  frameString(color = true): string {
+    const {action, code, name} = this.props()
+    let str = color ? chalk.bold(action) : action
+    if (name) str += color ? chalk.gray(` (in ${name})`) : ` (in ${name})`
+    const resolved = code instanceof Deferred ? code.value : code
+    if (resolved !== undefined) {
+      const printed = prettyPrint(resolved, false).replace(/\s+/g, ' ')
+      str += ' ' + (printed.length > 60 ? printed.slice(0, 59) + '…' : printed)
+    }
+    const location = locationOf(resolved)
+    if (location) {
+      const at = `at ${location.filename || '?'}:${location.line}:${location.column}`
+      str += ' ' + (color ? chalk.cyan(at) : at)
+    }
+    return str
   }
 
+  /**
+   * Formats {@link stackTrace} as a compact tree, one fiber per line. Long
+   * traces are truncated.
+   */
   stackTraceString(color = true): string {
     const trace = this.stackTrace()
-    let str = trace[0].descriptionString(color)
-    for (let i = 1; i < trace.length; i++) {
-      const branch = i === trace.length - 1 ? '└ ' : '├ '
-      str += '\n' + (color ? chalk.gray(branch) : branch)
-      str += trace[i].descriptionString(color).replace(/\n/gm,
-        '\n' + (i === trace.length - 1 ? '  ' : (color ? chalk.gray('│ ') : '│ ')))
+    const shown = trace.slice(0, maxTraceLength)
+    let str = shown[0].frameString(color)
+    for (let i = 1; i < shown.length; i++) {
+      const branch = i === shown.length - 1 ? '└ ' : '├ '
+      str += '\n' + (color ? chalk.gray(branch) : branch) + shown[i].frameString(color)
+    }
+    if (trace.length > shown.length) {
+      const more = `  … ${trace.length - shown.length} more`
+      str += '\n' + (color ? chalk.gray(more) : more)
     }
     return str
-  }*/
+  }
   
   toString() {
     if (this.value !== undefined) return `<resolved: ${toString(this.value)}>`
@@ -179,40 +370,163 @@ export class Fiber extends Deferred {
   }
 }
 
-export type ErrorHandler =
-  (root: Root, err: Jaspr, raisedIn: Branch, cb: Callback) => void
+/**
+ * Handles a signal that was raised with no signal handler available.
+ * `raisedIn` is the junction branch that raised the signal, and `raisedBy` is
+ * the fiber whose computation raised it (see {@link Fiber.stackTrace}), if
+ * known.
+ */
+export type ErrorHandler = (
+  root: Root,
+  err: Jaspr,
+  raisedIn: Branch,
+  cb: Callback,
+  raisedBy: Fiber | null
+) => void
+
+export type DiagnosticHandler = (root: Root, diagnostic: Diagnostic) => void
+
+/**
+ * Returns the ids of the channels that are arguments of `code`, if it is a
+ * call to a native function (such as `chanSend!` or `chanRecv!`).
+ */
+function chansIn(code: Jaspr | Deferred | undefined): number[] {
+  const call = code instanceof Deferred ? code.value : code
+  if (call === undefined || !isArray(call)) return []
+  const ids: number[] = []
+  for (let x of call.slice(1)) {
+    let arg = x instanceof Deferred ? x.value : x
+    if (arg !== undefined && isArray(arg) && arg.length === 2 && arg[0] === '') {
+      const quoted = arg[1]
+      arg = quoted instanceof Deferred ? quoted.value : quoted
+    }
+    if (arg !== undefined && Chan.isChan(arg)) {
+      ids.push((<Chan>(<any>arg)[magicSymbol]).id)
+    }
+  }
+  return ids
+}
+
+/** Describes a fiber that is part of a deadlock, for a `Deadlock` signal. */
+function blockedFiberInfo(fiber: Fiber): JasprObject {
+  const {waitingOn} = fiber
+  return {
+    id: fiber.id,
+    description: fiber.frameString(false),
+    waitingOn: waitingOn ? waitingOn.id : null,
+    chans: chansIn(fiber.props().code)
+  }
+}
 
 export class Root extends Branch {
   readonly errorHandler: ErrorHandler
+  readonly diagnosticHandler: DiagnosticHandler
+  readonly diagnostics: Diagnostic[] = []
+  /** Every unresolved fiber in this root, by id. Fibers are removed when
+   *  they resolve or their branch is canceled. */
+  readonly fibers = new Map<number, Fiber>()
+  readonly tracer = new Tracer()
 
   constructor(
     errorHandler: ErrorHandler =
-      (root, err, raisedBy, cb) => {
+      (root, err, raisedIn, cb, raisedBy) => {
         console.error(chalk.redBright('⚠ Unhandled Signal ⚠'))
         console.error(prettyPrint(err))
-        //console.error('\n' + chalk.gray('Stack trace:'))
-        //console.error(raisedBy.stackTraceString())
+        if (raisedBy) {
+          console.error('\n' + chalk.gray('Stack trace:'))
+          console.error(raisedBy.stackTraceString())
+        }
         root.cancel()
+      },
+    diagnosticHandler: DiagnosticHandler =
+      (root, {level, why, name, code, at, suggestions}) => {
+        const location = <SourceLocation | undefined>at
+        console.error((level === 'error'
+          ? chalk.redBright('⚠ Error: ') : chalk.yellowBright('⚠ Warning: ')) +
+          why + (name ? chalk.gray(` (in ${name.replace(/@[^@]*$/, '')})`) : '') +
+          (location ? chalk.cyan(
+            ` at ${location.filename || '?'}:${location.line}:${location.column}`)
+           : ''))
+        console.error('  ' + prettyPrint(code))
+        if (Array.isArray(suggestions) && suggestions.length > 0) {
+          console.error(chalk.gray(`  did you mean: ${suggestions.join(', ')}?`))
+        }
       }
   ) {
     super()
     this.errorHandler = errorHandler
+    this.diagnosticHandler = diagnosticHandler
   }
 
   isCanceled() { return this.canceled }
 
+  pendingFibers(): Iterable<Fiber> {
+    return this.fibers.values()
+  }
+
+  /**
+   * Returns a `Deadlock` signal that lists every live fiber, or null if there
+   * are no live fibers. This is only a deadlock if nothing else is left to
+   * run; otherwise, the fibers may just be waiting for I/O or timers.
+   */
+  deadlock(): JasprError | null {
+    const fibers = this.liveFibers()
+    if (fibers.length === 0) return null
+    return {
+      err: 'Deadlock',
+      why: `${fibers.length} fiber(s) are blocked, and nothing is left to run`,
+      fibers: fibers.map(blockedFiberInfo)
+    }
+  }
+
+  /**
+   * Checks for a deadlock (see {@link deadlock}) whenever Node's event loop
+   * runs out of timers, I/O, and `setImmediate` callbacks, and raises it as an
+   * unhandled signal. The same set of blocked fibers is only reported once, so
+   * that the process can still exit.
+   */
+  detectDeadlocks(): void {
+    let reported = ''
+    process.on('beforeExit', () => {
+      const signal = this.deadlock()
+      if (signal == null) return
+      const blocked = (<JasprObject[]>signal.fibers).map(f => f.id).join()
+      if (blocked === reported) return
+      reported = blocked
+      this.errorHandler(this, signal, this, () => {}, null)
+    })
+  }
+
+  /**
+   * Returns every fiber in this root that has not resolved and is not
+   * canceled, in the order they were created.
+   */
+  liveFibers(): Fiber[] {
+    const live: Fiber[] = []
+    for (let [id, fiber] of this.fibers) {
+      if (fiber.isCanceled()) this.fibers.delete(id)
+      else live.push(fiber)
+    }
+    return live
+  }
+
   deferCancelable(
     fn: (env: Env, cb: Callback) => void,
     dynamics: [JasprDynamic, Jaspr | Deferred][] = []
   ): {fiber: Fiber, cancel: () => void} {
     const branch = new Branch(this, this)
     const fiber = new Fiber(branch)
-    setImmediate(() => fn(branch, fiber.resolve.bind(fiber)))
+    setImmediate(() => this.within(fiber, () => fn(branch, fiber.resolve.bind(fiber))))
     return {fiber, cancel: () => branch.cancel()}
   }
 
   unhandledError(err: Jaspr, cb: Callback) {
-    this.errorHandler(this, err, this, cb)
+    this.errorHandler(this, err, this, cb, currentFiber)
+  }
+
+  reportDiagnostic(diagnostic: Diagnostic) {
+    this.diagnostics.push(diagnostic)
+    this.diagnosticHandler(this, diagnostic)
   }
 
   readonly _closureName = this.gensym('closure')
@@ -221,7 +535,26 @@ export class Root extends Branch {
       this.unhandledError(err, v => cb(null, v))
     }).toClosure(this))
   readonly _nameVar = makeDynamic(null)
+  readonly _traceVar = makeDynamic(null)
   get closureName() { return this._closureName }
+
+  private _checkTypes = false
+  get checkTypes() { return this._checkTypes }
+  set checkTypes(checkTypes: boolean) { this._checkTypes = checkTypes }
+  private _debugHook: DebugHook | null = null
+  get debugHook() { return this._debugHook }
+  set debugHook(debugHook: DebugHook | null) { this._debugHook = debugHook }
+  private _profiler: ProfileHook | null = null
+  get profiler() { return this._profiler }
+  set profiler(profiler: ProfileHook | null) { this._profiler = profiler }
+  // Compilation can be turned on for every root, including those created by
+  // tests, with the JASPR_JIT environment variable
+  private _compiler: CompileHook | null =
+    process.env.JASPR_JIT ? new Compiler() : null
+  get compiler() { return this._compiler }
+  set compiler(compiler: CompileHook | null) { this._compiler = compiler }
   get signalHandlerVar() { return this._signalHandlerVar }
   get nameVar() { return this._nameVar }
+  get traceVar() { return this._traceVar }
+  get traceActive() { return this.tracer.enabled || this.tracer.used }
 }
@@ -0,0 +1,171 @@
+/**
+ * Loader for `via: git` imports.
+ *
+ * Each repository is cloned once into a bare mirror in the cache directory.
+ * The requested ref (a tag, branch, or commit; `HEAD` by default) is resolved
+ * to a commit, which is checked out into its own directory and recorded in the
+ * lockfile. Once a ref is locked, later loads use the locked commit, and do not
+ * need network access if its checkout is already cached.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import {execFile} from 'child_process'
+import {ErrCallback} from './Jaspr'
+import {mkdirp, rmrf, sha256, fsError} from './Cache'
+import Lockfile from './Lockfile'
+
+const commitRegex = /^[0-9a-f]{40}$/
+
+const checkouts = new Map<string, Promise<string>>()
+const repoQueues = new Map<string, Promise<void>>()
+
+/**
+ * Runs `task` once every task previously queued for the same repository cache
+ * directory has finished, so that concurrent imports from one repository do
+ * not clone or check out into the same directories at the same time.
+ */
+function queueRepo(repoDir: string, task: (done: () => void) => void): void {
+  const previous = repoQueues.get(repoDir) || Promise.resolve()
+  const next = previous.then(() => new Promise<void>(resolve => task(resolve)))
+  repoQueues.set(repoDir, next)
+  next.then(() => {
+    if (repoQueues.get(repoDir) === next) repoQueues.delete(repoDir)
+  })
+}
+
+/** Runs `git` with the arguments `args`, then calls `cb` with its stdout. */
+function git(args: string[], cb: ErrCallback<string>): void {
+  execFile('git', args, (err, stdout, stderr) => {
+    if (err) cb(<any>{
+      err: 'ReadFailed', why: 'git command failed', args,
+      message: ('' + stderr).trim() || err.message
+    }, null)
+    else cb(null, ('' + stdout).trim())
+  })
+}
+
+function exists(filename: string, cb: (exists: boolean) => void): void {
+  fs.stat(filename, err => cb(err == null))
+}
+
+/**
+ * Ensures that the bare mirror `mirror` of `repo` exists, and, if `commit` is
+ * not null, that it contains `commit`. Clones or fetches only when necessary.
+ */
+function updateMirror(
+  repo: string,
+  mirror: string,
+  commit: string | null,
+  cb: ErrCallback<string>
+): void {
+  exists(mirror, mirrored => {
+    if (!mirrored) return mkdirp(path.dirname(mirror), err => {
+      if (err) return cb(fsError(err, 'WriteFailed',
+        'failed to create cache directory', path.dirname(mirror)), null)
+      git(['clone', '--quiet', '--mirror', '--', repo, mirror], err =>
+        err ? cb(err, null) : cb(null, mirror))
+    })
+    if (commit == null) return git(
+      ['--git-dir', mirror, 'fetch', '--quiet', '--prune', '--tags', 'origin'],
+      err => err ? cb(err, null) : cb(null, mirror))
+    git(['--git-dir', mirror, 'cat-file', '-e', `${commit}^{commit}`], err => {
+      if (err == null) return cb(null, mirror)
+      git(['--git-dir', mirror, 'fetch', '--quiet', '--tags', 'origin'],
+        err => err ? cb(err, null) : cb(null, mirror))
+    })
+  })
+}
+
+/**
+ * Checks out `ref` from the git repository `repo`, then calls `cb` with the
+ * path of the checked-out working tree.
+ *
+ * @param repo Any URL or path that `git clone` accepts.
+ * @param ref The tag, branch, or commit to check out. If null, `HEAD`.
+ * @param options The cache directory and lockfile to use.
+ * @param cb Callback that receives the path of the checkout.
+ */
+export function loadGit(
+  repo: string,
+  ref: string | null,
+  {cacheDir, lockfile}: {cacheDir: string, lockfile: string},
+  cb: ErrCallback<string>
+): void {
+  // Both are passed to git as arguments, and must not be read as options
+  if (repo.startsWith('-') || (ref && ref.startsWith('-'))) return cb(<any>{
+    err: 'BadModule', why: 'git repository or ref starts with "-"', repo, ref
+  }, null)
+  const lockKey = `${repo}#${ref || 'HEAD'}`
+  const cacheKey = `${cacheDir}\n${lockfile}\n${lockKey}`
+  let checkout = checkouts.get(cacheKey)
+  if (!checkout) {
+    const repoDir = path.join(cacheDir, 'git', sha256(repo))
+    checkout = Lockfile.open(lockfile).then(lock =>
+      new Promise<string>((resolve, reject) => queueRepo(repoDir, finished => {
+        const done: ErrCallback<string> = (err, dir) => {
+          finished()
+          if (err || dir == null) reject(err)
+          else resolve(dir)
+        }
+        const mirror = path.join(repoDir, 'mirror.git')
+        const locked = lock.get('git', lockKey)
+        const pinned =
+          locked && typeof locked.commit === 'string' ? <string>locked.commit
+          : ref && commitRegex.test(ref) ? ref
+          : null
+        // If `record` is true, the commit is locked, but only once its
+        // checkout is in the cache
+        const checkOut = (commit: string, record: boolean) => {
+          if (!commitRegex.test(commit)) return done(<any>{
+            err: 'BadModule', why: 'locked commit is not a commit hash',
+            repo, commit
+          }, null)
+          const dir = path.join(repoDir, commit)
+          const checkedOut = () => record
+            ? lock.set('git', lockKey, {commit}).then(
+                () => done(null, dir), err => done(err, null))
+            : done(null, dir)
+          exists(dir, cached => {
+            if (cached) return checkedOut()
+            updateMirror(repo, mirror, commit, err => {
+              if (err) return done(err, null)
+              const tmp = `${dir}.${process.pid}.tmp`
+              const fail = (err: any) => rmrf(tmp, () => done(err, null))
+              git(['clone', '--quiet', '--shared', '--no-checkout', '--', mirror, tmp], err => {
+                if (err) return fail(err)
+                git(['-C', tmp, 'checkout', '--quiet', '--detach', commit], err => {
+                  if (err) return fail(Object.assign(err, {
+                    why: 'commit not found in git repository', repo, commit
+                  }))
+                  fs.rename(tmp, dir, err => {
+                    if (err) fail(fsError(err, 'WriteFailed',
+                      'failed to write git checkout', dir))
+                    else checkedOut()
+                  })
+                })
+              })
+            })
+          })
+        }
+        if (pinned != null) return checkOut(pinned, !locked)
+        updateMirror(repo, mirror, null, err => {
+          if (err) return done(err, null)
+          git(['--git-dir', mirror, 'rev-parse', '--verify', '--quiet',
+               `${ref || 'HEAD'}^{commit}`], (err, commit) => {
+            if (err || !commit) return done(<any>{
+              err: 'BadModule', why: 'ref not found in git repository',
+              repo, ref: ref || 'HEAD'
+            }, null)
+            checkOut(commit, true)
+          })
+        })
+      })))
+    // Only concurrent loads share a checkout promise; later loads check the
+    // cache directory again
+    const forget = () => checkouts.delete(cacheKey)
+    checkouts.set(cacheKey, checkout)
+    checkout.then(forget, forget)
+  }
+  checkout.then(dir => cb(null, dir), err => cb(err, null))
+}
@@ -0,0 +1,110 @@
+/**
+ * Loader for `via: http` imports.
+ *
+ * Modules are downloaded once, stored in the content-addressed cache (see
+ * `Cache.ts`), and recorded in the lockfile with their SHA-256 hash. Later
+ * loads use the cached copy, without network access, as long as the lockfile
+ * entry exists. A downloaded or cached file that does not match its locked
+ * hash is an error.
+ */
+
+import * as http from 'http'
+import * as https from 'https'
+import * as url from 'url'
+import * as _ from 'lodash'
+import {ErrCallback} from './Jaspr'
+import {storeContent, findContent, sha256} from './Cache'
+import {markdownExtensions} from './LiterateParser'
+import Lockfile from './Lockfile'
+
+const maxRedirects = 5
+
+/** Tests whether `location` is an `http:` or `https:` URL. */
+export function isHttpUrl(location: string): boolean {
+  return /^https?:\/\//.test(location)
+}
+
+/** Downloads the contents of `location`, following redirects. */
+export function fetchUrl(
+  location: string,
+  cb: ErrCallback<Buffer>,
+  redirects = maxRedirects
+): void {
+  const get = location.startsWith('https:') ? https.get : http.get
+  const failed = (why: string, extras = {}) => cb(<any>Object.assign({
+    err: 'ReadFailed', why, url: location
+  }, extras), null)
+  get(location, res => {
+    const status = res.statusCode || 0
+    if (status >= 300 && status < 400 && res.headers.location) {
+      res.resume()
+      if (redirects <= 0) return failed('too many redirects')
+      return fetchUrl(
+        url.resolve(location, '' + res.headers.location), cb, redirects - 1)
+    } else if (status !== 200) {
+      res.resume()
+      return failed('HTTP request failed', {status})
+    }
+    const chunks: Buffer[] = []
+    res.on('data', (chunk: Buffer) => chunks.push(chunk))
+       .on('end', () => cb(null, Buffer.concat(chunks)))
+       .on('error', (err: Error) => failed('HTTP request failed', {message: err.message}))
+  }).on('error', (err: Error) =>
+    failed('HTTP request failed', {message: err.message}))
+}
+
+/**
+ * Returns the extension a module downloaded from `location` should be cached
+ * with, so that literate modules are still parsed as Markdown.
+ */
+function cachedExtension(location: string): string {
+  const pathname = url.parse(location).pathname || ''
+  return _.some(markdownExtensions, e => pathname.endsWith(e))
+    ? '.jaspr.md' : '.jaspr'
+}
+
+/**
+ * Finds or downloads the module at `location`, then calls `cb` with the path
+ * of its cached copy.
+ *
+ * @param location The URL of the module.
+ * @param options The cache directory and lockfile to use.
+ * @param cb Callback that receives the path of the cached module source.
+ */
+export function loadHttp(
+  location: string,
+  {cacheDir, lockfile}: {cacheDir: string, lockfile: string},
+  cb: ErrCallback<string>
+): void {
+  const ext = cachedExtension(location)
+  Lockfile.open(lockfile).then(lock => {
+    const locked = lock.get('http', location)
+    const expected = locked && typeof locked.sha256 === 'string'
+      ? <string>locked.sha256 : null
+    const download = () => fetchUrl(location, (err, data) => {
+      if (err || data == null) return cb(err, null)
+      const actual = sha256(data)
+      if (expected != null && actual !== expected) return cb({
+        err: 'BadModule', why: 'downloaded module does not match lockfile hash',
+        url: location, expected, actual, lockfile,
+        help: `
+          The module has changed since it was locked. If this is expected,
+          delete its entry from the lockfile to download it again.
+        `.trim().replace(/\s+/gm, ' ')
+      }, null)
+      storeContent(cacheDir, data, ext, (err, stored) => {
+        if (err || stored == null) return cb(err, null)
+        if (expected != null) return cb(null, stored.filename)
+        lock.set('http', location, {sha256: actual}).then(
+          () => cb(null, stored.filename),
+          err => cb(err, null))
+      })
+    })
+    if (expected == null) return download()
+    findContent(cacheDir, expected, ext, (err, cached) => {
+      if (err) cb(err, null)
+      else if (cached) cb(null, cached)
+      else download()
+    })
+  }, err => cb(err, null))
+}
@@ -8,6 +8,11 @@ import {
 } from './Jaspr'
 
 import prettyPrint from './PrettyPrint'
+import {
+  FunctionType, functionType, argsTypeError, returnTypeError
+} from './Types'
+import {locationOf, copyLocation} from './SourceLocation'
+import {TraceEventInit, summarize} from './Trace'
 
 /**
  * A Jaspr scope is made up of _contexts_, which map names to values:
@@ -15,7 +20,9 @@ import prettyPrint from './PrettyPrint'
  * - `value` is the default context, containing runtime values and functions.
  *   The majority of Jaspr code is only concerned with this context.
  * - `macro` contains macro functions.
- * - `check` is for check macros, a planned feature (not yet implemented)
+ * - `check` is for check macros, which are called during macro expansion to
+ *   report problems with calls to the function of the same name
+ * - `type` is for type annotations of functions (see `Types.ts`)
  * - `test` is for unit tests
  * - `doc` is for documentation strings
  * 
@@ -29,8 +36,10 @@ export interface Scope extends JasprObject {
   value: JasprObject
   /** The `macro` context, containing macro functions */
   macro: JasprObject
-  /** The `check` context, currently not used (planned future feature) */
+  /** The `check` context, containing check macros */
   check: JasprObject
+  /** The `type` context, containing unevaluated type annotations */
+  type: JasprObject
   /** The `test` context, containing unit tests */
   test: JasprObject
   /** The `doc` context, containing documentation strings */
@@ -42,14 +51,15 @@ export interface Scope extends JasprObject {
 
 /** The empty scope */
 export const emptyScope: Scope =
-  {value: {}, macro: {}, check: {}, doc: {}, test: {}, qualified: {}}
+  {value: {}, macro: {}, check: {}, type: {}, doc: {}, test: {}, qualified: {}}
 
 /** 
  * The set of built-in context names. These are the only legal context names
  * that do not contain `.`. They are also the required properties of the
  * {@link Scope} interface.
  */
-export const topLevelContexts = new Set(['value', 'macro', 'check', 'doc', 'test'])
+export const topLevelContexts =
+  new Set(['value', 'macro', 'check', 'type', 'doc', 'test'])
 
 /**
  * A Jaspr object that is a dynamic variable reference. Although TypeScript
@@ -112,7 +122,7 @@ export function isClosure(env: Env, it: Jaspr): it is JasprObject {
  * 
  * @param it The value to test.
  */
-function isLiteral(it: Jaspr | Deferred) {
+export function isLiteral(it: Jaspr | Deferred) {
   return !it || it === true || typeof it === "number" || _.isEmpty(it)
 }
 
@@ -136,6 +146,26 @@ export interface Env {
    */
   defer(desc?: () => FiberDescriptor): Deferred
 
+  /**
+   * Calls `fn`, which computes part of the value of the fiber `fiber`, and
+   * returns its result. Fibers spawned by `fn` record `fiber` as their parent,
+   * for stack traces.
+   */
+  within<T>(fiber: Deferred, fn: () => T): T
+
+  /**
+   * Makes `fiber` the fiber that is running, as {@link within} does, and
+   * returns the fiber that was running before, which must be restored by
+   * passing it to `enter` again. Unlike `within`, this needs no closure.
+   */
+  enter(fiber: Deferred | null): Deferred | null
+
+  /**
+   * Records that the fiber `fiber` cannot continue until `on` resolves, so that
+   * a deadlock report can say what `fiber` is waiting on.
+   */
+  suspend(fiber: Deferred, on: Deferred): void
+
   /**
    * Creates a new choice junction that is a child of this environment's current
    * junction branch. A branch is created for each function in the array
@@ -194,6 +224,164 @@ export interface Env {
   /** Dynamic variable that contains the fully-qualified name of the value
    *  currently being evaluated. Its default value is `null`. */
   nameVar: JasprDynamic
+
+  /** Dynamic variable that enables (`true`) or disables (`false`) tracing of
+   *  the fibers spawned by the code it is bound in. Its default value is
+   *  `null`, which leaves tracing as it is. */
+  traceVar: JasprDynamic
+
+  /**
+   * Calls `fn` inside a new fiber, whose value is the return value of `fn`,
+   * and returns that fiber. The new fiber, and the fibers that it spawns, are
+   * traced if `enabled` is true (see `Trace.ts`).
+   */
+  tracing(
+    enabled: boolean,
+    fn: () => Jaspr | Deferred,
+    desc?: () => FiberDescriptor
+  ): Deferred
+
+  /**
+   * Records a trace event that happened in `fiber`, which defaults to the
+   * current fiber, if that fiber is traced.
+   */
+  trace(event: TraceEventInit, fiber?: Deferred | null): void
+
+  /**
+   * False if no trace events can be recorded, because tracing is not enabled
+   * and no fiber has been traced. Callers check this before building an event.
+   */
+  readonly traceActive: boolean
+
+  /**
+   * If true, calls to functions with type annotations (in the `type` context)
+   * check their arguments and return values at runtime. This is slow, and
+   * should only be used for debugging.
+   */
+  readonly checkTypes: boolean
+
+  /**
+   * If not null, a debugger that is notified before each piece of code with a
+   * known source location is evaluated, and before each closure is called, and
+   * can pause evaluation there.
+   */
+  readonly debugHook: DebugHook | null
+
+  /**
+   * If not null, a profiler that is notified before each expression is
+   * evaluated or macroexpanded, each time a closure is called, and each time a
+   * fiber is created.
+   */
+  readonly profiler: ProfileHook | null
+
+  /**
+   * If not null, a compiler that turns the bodies of closures into JavaScript
+   * functions when they are called. Compiled code is not used while a
+   * debugger or profiler is attached, or while {@link checkTypes} is set.
+   */
+  readonly compiler: CompileHook | null
+
+  /**
+   * Reports a problem found before evaluation, by a check macro or by static
+   * analysis. Diagnostics are only reported; they never change the behavior of
+   * the checked code.
+   */
+  reportDiagnostic(diagnostic: Diagnostic): void
+}
+
+/**
+ * A problem found in code before it is evaluated, either by a check macro
+ * during macro expansion or by static analysis of a module. Diagnostics may
+ * have other properties, depending on where they came from.
+ */
+export interface Diagnostic extends JasprObject {
+  level: 'warning' | 'error'
+  why: string
+  /** The name of the called function whose check macro found the problem, or
+   *  null if the problem was not found by a check macro */
+  fn: string | null
+  /** The code that has the problem, after macro expansion */
+  code: Jaspr
+  /** The name of the definition that contains the call, if known */
+  name: string | null
+}
+
+/**
+ * A debugger attached to an environment (see {@link Env.debugHook}).
+ */
+export interface DebugHook {
+  /**
+   * Called before the code of `frame` is evaluated. `frame` is either code with
+   * a known source location, or the body of a closure that is being called, in
+   * which case its code may not have a location. Returns a value that
+   * resolves once evaluation should continue, or undefined to continue
+   * immediately. If evaluation is paused, `enter` will be called again with the
+   * same code, scope, and arguments when it continues.
+   */
+  enter(env: Env, frame: Frame, dynamics: DynamicMap | undefined): Deferred | undefined
+}
+
+/**
+ * Whether code is being evaluated or macroexpanded, for profiling. Code that is
+ * evaluated by a macro counts as macroexpansion.
+ */
+export type ProfilePhase = 'eval' | 'macroexpand'
+
+/**
+ * A profiler attached to an environment (see {@link Env.profiler}).
+ */
+export interface ProfileHook {
+  /**
+   * Called before each array expression is evaluated or macroexpanded, with
+   * the innermost {@link Frame} and the expression's dynamic variables. This is
+   * called very often, so it should do nothing most of the time.
+   */
+  sample(
+    env: Env,
+    phase: ProfilePhase,
+    frame: Frame | undefined,
+    dynamics: DynamicMap | undefined
+  ): void
+
+  /**
+   * Called before the body of a closure, `code`, is evaluated with the
+   * arguments `args`. `name` is the name of the definition that created the
+   * closure, if it is known.
+   */
+  call(code: Jaspr, args: JasprArray, name: string | undefined): void
+
+  /**
+   * Called before the body of a `let` (a closure with no arguments that is
+   * called immediately) is evaluated with the arguments `args`, in code that
+   * was evaluated with the arguments `outerArgs`.
+   */
+  enterLet(outerArgs: JasprArray, args: JasprArray): void
+
+  /** Called when a fiber is created. */
+  spawn(action: Action): void
+}
+
+/**
+ * A closure body compiled into a JavaScript function, which evaluates the body
+ * in the same way as {@link evalExpr}.
+ */
+export type CompiledFn = (
+  env: Env,
+  scope: Scope,
+  $args: JasprArray,
+  dynamics: DynamicMap | undefined
+) => Jaspr | Deferred
+
+/**
+ * A compiler attached to an environment (see {@link Env.compiler}).
+ */
+export interface CompileHook {
+  /**
+   * Returns the compiled version of the closure body `code`, or null if it
+   * should be interpreted. Called every time a closure is called, so it should
+   * cache its results.
+   */
+  compile(code: Jaspr): CompiledFn | null
 }
 
 /**
@@ -205,6 +393,10 @@ export interface FiberDescriptor {
   action: Action
   code?: Jaspr | Deferred
   name?: string
+  /** For `external` fibers: the innermost frame that was being evaluated
+   *  when the fiber was created, and its dynamic variables */
+  frame?: Frame
+  dynamics?: DynamicMap
 }
 
 /**
@@ -213,7 +405,7 @@ export interface FiberDescriptor {
  */
 export type Action =
   'root' | 'eval' | 'macroexpand' | 'check' | 'junction' | 'send' | 'recv' |
-  'apply' | 'external' 
+  'apply' | 'external' | 'break'
 
 /**
  * Tests whether `name` is a legal top-level Jaspr identifier. Legal
@@ -249,7 +441,7 @@ export function waitFor(v: Jaspr | Deferred, cb: Callback): void {
  * @param desc Function that returns a debug descriptor for the fiber that may
  *   be spawned to wait on `first`/`fn`.
  */
-function then(
+export function then(
   env: Env,
   first: Jaspr | Deferred,
   fn: (x: Jaspr) => Jaspr | Deferred,
@@ -257,11 +449,139 @@ function then(
 ): Jaspr | Deferred {
   if (first instanceof Deferred) {
     const d = env.defer(desc)
-    first.await(x => waitFor(fn(x), y => d.resolve(y)))
+    const at = currentFrame
+    env.suspend(d, first)
+    first.await(x => settle(env, d, resume(env, d, at, fn, x)))
     return d
   } else return fn(first)
 }
 
+/**
+ * Resolves the fiber `fiber` with `value` once `value` is available, and
+ * records that `fiber` is suspended on `value` until then.
+ */
+function settle(env: Env, fiber: Deferred, value: Jaspr | Deferred): void {
+  if (value instanceof Deferred) {
+    env.suspend(fiber, value)
+    value.await(x => fiber.resolve(x))
+  } else fiber.resolve(value)
+}
+
+/**
+ * A piece of code with a known source location, along with the scope and
+ * arguments it is evaluated in. Frames are linked to the frame that was being
+ * evaluated when they were entered, up to {@link maxFrameDepth} frames.
+ */
+export interface Frame {
+  code: Jaspr
+  scope: Scope
+  $args: JasprArray
+  parent?: Frame
+  depth: number
+}
+
+/** The maximum number of parent frames that a {@link Frame} keeps. */
+const maxFrameDepth = 64
+
+/** Creates a frame whose parent is {@link currentFrame}. */
+function enterFrame(code: Jaspr, scope: Scope, $args: JasprArray): Frame {
+  const parent = currentFrame && currentFrame.depth < maxFrameDepth
+    ? currentFrame : undefined
+  return {code, scope, $args, parent, depth: parent ? parent.depth + 1 : 0}
+}
+
+/**
+ * The innermost code with a known source location that is currently being
+ * evaluated. Errors raised by {@link raise} are located at this code, unless
+ * another location is given, and debuggers can evaluate code in its scope.
+ *
+ * Evaluation is synchronous until it reaches a deferred value, so this only
+ * needs to be saved and restored around continuations that run later.
+ */
+let currentFrame: Frame | undefined = undefined
+
+/**
+ * Enters a frame for `code`, as {@link evalExpr} does for code with a known
+ * source location, and returns the frame that was current before it. Used by
+ * compiled code (see `Compiler.ts`), which leaves the frame by passing the
+ * returned frame to {@link popFrame}.
+ */
+export function pushFrame(
+  code: Jaspr,
+  scope: Scope,
+  $args: JasprArray
+): Frame | undefined {
+  const outer = currentFrame
+  currentFrame = enterFrame(code, scope, $args)
+  return outer
+}
+
+/** Makes `frame`, which was returned by {@link pushFrame}, current again. */
+export function popFrame(frame: Frame | undefined): void {
+  currentFrame = frame
+}
+
+/** Returns {@link currentFrame}. */
+export function getCurrentFrame(): Frame | undefined {
+  return currentFrame
+}
+
+/**
+ * Whether the code that is currently running is being evaluated or
+ * macroexpanded. Like {@link currentFrame}, this is only tracked while
+ * evaluation is synchronous; only used when profiling.
+ */
+let currentPhase: ProfilePhase = 'eval'
+
+/**
+ * Calls `fn` with {@link currentFrame} set to `at` (if `at` has a source
+ * location), then restores `currentFrame`.
+ */
+function evaluatingAt<T>(at: Frame | undefined, fn: () => T): T {
+  const outer = currentFrame
+  if (at !== undefined && locationOf(at.code)) currentFrame = at
+  try { return fn() }
+  finally { currentFrame = outer }
+}
+
+/**
+ * Calls `fn` with `x`, a continuation that computes the value of the fiber
+ * `fiber`, inside `fiber` (see {@link Env.enter}) and at the frame `at` (see
+ * {@link evaluatingAt}). Continuations run on every deferred value, so this
+ * allocates nothing.
+ */
+function resume<A, T>(
+  env: Env,
+  fiber: Deferred,
+  at: Frame | undefined,
+  fn: (x: A) => T,
+  x?: A
+): T {
+  const outerFiber = env.enter(fiber), outerFrame = currentFrame
+  if (at !== undefined && locationOf(at.code)) currentFrame = at
+  try { return fn(<A>x) }
+  finally {
+    currentFrame = outerFrame
+    env.enter(outerFiber)
+  }
+}
+
+/**
+ * Returns the name of the definition being evaluated (the value of
+ * `env.nameVar` in `dynamics`), or undefined if it is unknown.
+ */
+export function definitionName(
+  env: Env,
+  dynamics: DynamicMap | undefined
+): string | undefined {
+  for (let ds = dynamics; ds; ds = ds.next) {
+    if (ds.key === env.nameVar) {
+      return typeof ds.value === 'string' ? ds.value : undefined
+    }
+  }
+  return undefined
+}
+
 /**
  * Internal error type used to stop synchronous code execution when a deferred
  * value is encountered. When this error is thrown during evaluation, the
@@ -277,6 +597,11 @@ class DeferredError extends Error {
   }
 }
 
+/** Tests whether `e` is a {@link DeferredError}. */
+export function isDeferredError(e: any): boolean {
+  return e instanceof DeferredError
+}
+
 /** Throws {@link DeferredError} if `v` is not immediately available. */
 function expect<T extends Jaspr>(v: T | Deferred): T {
   if (v instanceof Deferred) {
@@ -307,7 +632,9 @@ export function mergeScopes(env: Env, ...scopes: Scope[]): Scope {
       } else {
         return isObject(l) && isObject(r) ? _.assignIn({}, l, r) : l
       }
-    }), {value: {}, macro: {}, check: {}, doc: {}, test: {}, qualified: {}})
+    }), {
+      value: {}, macro: {}, check: {}, type: {}, doc: {}, test: {}, qualified: {}
+    })
 }
 
 /** Any object that contains a module name and a version. */
@@ -329,6 +656,14 @@ export function qualify(ns: Namespace, name: string): string {
  */
 const unexpandedSymbol = Symbol('unexpandedMacros')
 
+/**
+ * Tests whether `code` is a `$closure` call that will be macroexpanded again
+ * before it is evaluated.
+ */
+export function hasUnexpandedMacros(code: Jaspr): boolean {
+  return !!(<any>code)[unexpandedSymbol]
+}
+
 /** 
  * A unique object that, when stored in the {@link magicSymbol} property of a
  * {@link JasprObject}, marks that object as a magic closure which may contain
@@ -342,6 +677,27 @@ export const closureMarker = {}
  */
 export const dynamicMarker = {}
 
+/**
+ * A dynamic variable that is bound while {@link evalDefs} expands a definition
+ * whose expansion may be precompiled. Its value is an object whose `pure` key
+ * is set to false if an impure function is called during the expansion. It is
+ * not visible to Jaspr code.
+ */
+const expansionVar = makeDynamic(null)
+
+/**
+ * Records that an impure function was called with `dynamics`, so that the
+ * definition being expanded (if any) is not precompiled.
+ */
+function markImpure(dynamics: DynamicMap | undefined): void {
+  for (let ds = dynamics; ds; ds = ds.next) {
+    if (ds.key === expansionVar) {
+      (<JasprObject>ds.value).pure = false
+      return
+    }
+  }
+}
+
 /**
  * Raises an error signal in the given environment and dynamic variable context.
  * The signal may be caught by a signal handler in a dynamic variable, or it may
@@ -354,20 +710,37 @@ export const dynamicMarker = {}
  * @param dynamics A map from dynamic variables to values, which may contain a
  *   signal handler.
  * @param error The error signal to raise.
+ * @param at The code that caused the error. If it has a known source location
+ *   (see `SourceLocation.ts`), and `error` does not already have an `at` key,
+ *   the location is added to `error` as `at`. Defaults to the innermost code
+ *   being evaluated.
  */
 export function raise(
   env: Env,
   dynamics: DynamicMap | undefined,
-  error: JasprError
+  error: JasprError,
+  at: Jaspr | Deferred | undefined = currentFrame && currentFrame.code
 ): Jaspr | Deferred {
+  const location = at === undefined ? null : locationOf(at)
+  if (location && isObject(error) && !(magicSymbol in error) && !has(error, 'at')) {
+    error = Object.assign({}, error, {at: location})
+  }
+  if (env.traceActive) env.trace({
+    event: 'signal', name: definitionName(env, dynamics) || null,
+    signal: summarize(error), at: location
+  })
   let ds = dynamics
   for (; ds; ds = ds.next) {
     if (ds.key === env.signalHandlerVar) {
       return call(env, ds.value, [error], dynamics)
     }
   }
-  const d = env.defer(() => ({action: 'external'}))
-  env.unhandledError(error, x => d.resolve(x))
+  const frame = currentFrame
+  const d = env.defer(() => ({
+    action: 'external', code: at, name: definitionName(env, dynamics),
+    frame, dynamics
+  }))
+  env.within(d, () => env.unhandledError(error, x => d.resolve(x)))
   return d
 }
 
@@ -402,7 +775,7 @@ function macroApply(
           err: 'BadArgs',
           why: `${Names.syntaxQuote} takes 1 argument, got ${code.length - 1}`,
           fn: Names.syntaxQuote, args: code.slice(1)
-        })
+        }, code)
         try {
           const syms = new Map<string, string>()
           recur = syntaxQuote(env, code[1], scope.qualified,
@@ -417,20 +790,37 @@ function macroApply(
         } catch (e) {
           if (e instanceof Error) throw e
           // syntaxQuote throws when it raises a signal
-          else recur = raise(env, dynamics, e)
+          else recur = raise(env, dynamics, e, code)
         }
       } else if (typeof fn === 'string' && scope.macro[fn] !== undefined) {
-        recur = call(env, scope.macro[fn], code.slice(1), dynamics)
+        const macro = scope.macro[fn], args = code.slice(1)
+        const at = enterFrame(code, scope, [])
+        if (env.traceActive) env.trace({
+          event: 'macroexpand', name: definitionName(env, dynamics) || null,
+          macro: fn, at: locationOf(code)
+        })
+        recur = evaluatingAt(at, () => call(env, macro, args, dynamics))
+      }
+      // The expansion was read from the same place as the macro call
+      if (recur !== undefined) {
+        const from = code
+        recur = recur instanceof Deferred
+          ? then(env, recur, x => copyLocation(from, x),
+              () => ({action: 'macroexpand', code: from}))
+          : copyLocation(from, recur)
       }
     }
   } catch (e) {
     if (e instanceof DeferredError) {
       // If a DeferredError was thrown, execution can't continue synchronously.
       // Wait for the deferred value to resolve, then try again.
-      const deferred = env.defer(() => ({action: 'macroexpand', code}))
-      e.waitingOn.await(() =>
-        waitFor(macroApply(env, scope, dynamics, code),
-          x => deferred.resolve(x)))
+      const deferred = env.defer(() => ({
+        action: 'macroexpand', code, name: definitionName(env, dynamics)
+      }))
+      const at = currentFrame
+      env.suspend(deferred, e.waitingOn)
+      e.waitingOn.await(() => settle(env, deferred,
+        resume(env, deferred, at, () => macroApply(env, scope, dynamics, code))))
       return deferred
     } else throw e
   }
@@ -438,6 +828,70 @@ function macroApply(
   else return macroApply(env, scope, dynamics, recur)
 }
 
+/**
+ * Returns the function type annotation of `name` in `scope`, or null if it has
+ * none.
+ */
+function annotation(scope: Scope, name: string): FunctionType | null {
+  return isObject(scope.type) && scope.type[name] !== undefined
+    ? functionType(<Jaspr>scope.type[name]) : null
+}
+
+/**
+ * Interprets the return value of a check macro as a list of diagnostics. A check
+ * macro may return `null` or a boolean (no diagnostics), a string (a warning
+ * message), an object (a diagnostic), or an array of any of these.
+ */
+function diagnosticsOf(result: Jaspr): JasprObject[] {
+  if (result == null || typeof result === 'boolean') return []
+  if (typeof result === 'string') return [{why: result}]
+  if (isArray(result)) return _.flatMap(result, diagnosticsOf)
+  if (isObject(result)) return [result]
+  return [{why: toString(result)}]
+}
+
+/**
+ * Calls the check macro `scope.check[fn]` with the unevaluated arguments of the
+ * call `code`, in a new fiber, and reports the diagnostics it returns. If the
+ * check macro raises a signal, the signal is reported as an error diagnostic.
+ *
+ * Checks run alongside macro expansion, and never affect its result.
+ */
+function check(
+  env: Env,
+  scope: Scope,
+  dynamics: DynamicMap | undefined,
+  fn: string,
+  code: JasprArray
+): void {
+  const name = definitionName(env, dynamics) || null
+  const report = (d: JasprObject) => env.reportDiagnostic(<Diagnostic>Object.assign(
+    {}, d, {
+      level: d.level === 'error' ? 'error' : 'warning',
+      why: typeof d.why === 'string' ? d.why : 'check failed',
+      fn, code, name
+    }))
+  const fiber = env.defer(() => ({action: 'check', code, name: name || undefined}))
+  const signalHandler = new NativeSyncFn(function checkFailed(err) {
+    if (fiber.value === undefined) {
+      report({level: 'error', why: 'check macro raised a signal', signal: err})
+      fiber.resolve(null)
+    }
+    return null
+  }).toClosure(env)
+  resolveFully(code, (err, resolved) => {
+    if (err || !isArray(resolved)) return fiber.resolve(null)
+    waitFor(scope.check[fn], checkMacro =>
+      waitFor(call(env, checkMacro, resolved.slice(1), {
+        key: env.signalHandlerVar, value: signalHandler, next: dynamics
+      }), result => {
+        if (fiber.value !== undefined) return
+        diagnosticsOf(result).forEach(report)
+        fiber.resolve(null)
+      }))
+  })
+}
+
 /**
  * Recursively performs macro expansion on `code`, using the macro definitions
  * in the `macro` context of `scope`. Arrays that represent applications of
@@ -462,16 +916,24 @@ export function macroExpand(
   dynamics: DynamicMap | undefined,
   code: Jaspr | Deferred
 ): Jaspr | Deferred {
+  if (env.profiler && currentPhase !== 'macroexpand') {
+    currentPhase = 'macroexpand'
+    try { return macroExpand(env, scope, dynamics, code) }
+    finally { currentPhase = 'eval' }
+  }
 
   // Step 1: Apply macro functions
   try {
     code = expect(code)
     if (isLiteral(code) || typeof code === "string") return code
+    if (env.profiler && isArray(code)) {
+      env.profiler.sample(env, currentPhase, currentFrame, dynamics)
+    }
     if (isArray(code) && code.length > 0 &&
           !(code.length === 2 && expect(code[0]) === '') &&
           !(code.length === 4 && expect(code[0]) === Names.closure)) {
       return then(env, macroApply(env, scope, dynamics, code), postExpand,
-        () => ({action: 'macroexpand', code}))
+        () => ({action: 'macroexpand', code, name: definitionName(env, dynamics)}))
     }
   } catch (e) { return retry(e, () => macroExpand(env, scope, dynamics, code)) }
   return postExpand(code)
@@ -480,7 +942,7 @@ export function macroExpand(
   function postExpand(code: Jaspr): Jaspr | Deferred {
     try {
       if (isObject(code)) {
-        const out: JasprObject = Object.create(null)
+        const out: JasprObject = copyLocation(code, Object.create(null))
         for (let key in code) {
           const value = macroExpand(env, scope, dynamics, code[key])
           out[key] = value
@@ -489,14 +951,14 @@ export function macroExpand(
         return out
       } else if (isArray(code)) {
         if (code.length === 2 && expect(code[0]) === '') return code
-        const out = new Array<Jaspr | Deferred>(code.length)
+        const out = copyLocation(code, new Array<Jaspr | Deferred>(code.length))
         // Special case: closures
         // Only recur into closures if they do not define any new macros
         if (code.length === 4 && expect(code[0]) === Names.closure &&
             isObject(expect(code[1]))) {
           const [fn, defs, body, fields] = code
           const nameError = validateNames(<JasprObject>defs)
-          if (nameError != null) return raise(env, dynamics, nameError)
+          if (nameError != null) return raise(env, dynamics, nameError, code)
           out[0] = fn
           out[3] = macroExpand(env, scope, dynamics, fields)
           if (out[3] instanceof Deferred) (<Deferred>out[3]).await(v => out[3] = v)
@@ -506,12 +968,13 @@ export function macroExpand(
             out[2] = body
             out[<any>unexpandedSymbol] = true
           } else {
-            out[2] = macroExpand(env, scope, dynamics, body)
+            const inner = shadowTypes(scope, <JasprObject>expect(defs))
+            out[2] = macroExpand(env, inner, dynamics, body)
             if (out[2] instanceof Deferred) (<Deferred>out[2]).await(v => out[2] = v)
             const outDefs = Object.create(null)
             out[1] = outDefs
             for (let name in <JasprObject>defs) {
-              const value = macroExpand(env, scope, {
+              const value = macroExpand(env, inner, {
                   key: env.nameVar, value: name, next: dynamics
                 }, (<any>defs)[name])
               outDefs[name] = value
@@ -524,6 +987,15 @@ export function macroExpand(
             out[i] = value
             if (value instanceof Deferred) value.await(v => out[i] = v)
           }
+          const fn = expect(code[0])
+          if (typeof fn === 'string' && scope.check && scope.check[fn] !== undefined) {
+            check(env, scope, dynamics, fn, out)
+          }
+          const type = typeof fn === 'string' ? annotation(scope, fn) : null
+          if (type) {
+            const err = argsTypeError(<string>fn, type, out.slice(1), true)
+            if (err) return raise(env, dynamics, err, code)
+          }
         }
         return optimize(out)
       } else return code
@@ -565,8 +1037,12 @@ export function macroExpand(
   // Wait for the deferred value to resolve, then try again.
   function retry(e: any, fn: () => Jaspr | Deferred): Deferred {
     if (e instanceof DeferredError) {
-      const deferred = env.defer(() => ({action: 'macroexpand', code}))
-      e.waitingOn.await(() => waitFor(fn(), x => deferred.resolve(x)))
+      const deferred = env.defer(() => ({
+        action: 'macroexpand', code, name: definitionName(env, dynamics)
+      }))
+      const at = currentFrame
+      env.suspend(deferred, e.waitingOn)
+      e.waitingOn.await(() => settle(env, deferred, resume(env, deferred, at, fn)))
       return deferred
     } else throw e
   }
@@ -593,8 +1069,9 @@ function syntaxQuote(
       // If a DeferredError was thrown, execution can't continue synchronously.
       // Wait for the deferred value to resolve, then try again.
       const deferred = env.defer(() => ({action: 'macroexpand', code}))
-      e.waitingOn.await(() => waitFor(syntaxQuote(env, code, qualified, gensyms),
-        x => deferred.resolve(x)))
+      env.suspend(deferred, e.waitingOn)
+      e.waitingOn.await(() => settle(env, deferred,
+        env.within(deferred, () => syntaxQuote(env, code, qualified, gensyms))))
       return deferred
     } else throw e
   }
@@ -687,6 +1164,29 @@ function subst(
   } else return code
 }
 
+/**
+ * Arity metadata, stored in the `$arity` field of closures created by the `fn`
+ * family of macros. `max` is null if the closure takes any number of arguments
+ * greater than or equal to `min`. The interpreter adds a `name` property, the
+ * name of the definition in which the closure was created.
+ */
+export interface Arity extends JasprObject {
+  min: number
+  max: number | null
+}
+
+function isArity(it: Jaspr): it is Arity {
+  return isObject(it) && typeof it.min === 'number' &&
+    (it.max === null || typeof it.max === 'number')
+}
+
+export function arityString({min, max}: {min: number, max: number | null}): string {
+  const args = (n: number) => n === 1 ? '1 argument' : `${n} arguments`
+  if (max === min) return args(min)
+  else if (max == null) return `at least ${args(min)}`
+  else return `${min} to ${args(max)}`
+}
+
 /**
  * Calls the Jaspr value `callee` with the arguments `args` and the given
  * environment and bindings.
@@ -697,7 +1197,9 @@ function subst(
  * Calling `[]` or `{}` generates a new array or object from the arguments.
  * 
  * Calling a closure evaluates the closure's body with `args` bound to the
- * special variable `$args`.
+ * special variable `$args`. If the closure has arity metadata (see
+ * {@link Arity}), and the number of arguments is out of range, a `BadArgs`
+ * error is raised instead.
  * 
  * All other values are not callable, and will raise an error signal.
  * 
@@ -717,6 +1219,7 @@ export function call(
       <any>Object.assign({err: 'BadArgs', why, fn: callee, args}, extras))
   const notCallable = (why: string) =>
     raise(env, dynamics, {err: 'NotCallable', why, callee, args})
+  const at = currentFrame
   try {
     callee = expect(callee)
     if (isClosure(env, callee)) {
@@ -727,25 +1230,51 @@ export function call(
       } = callee
       if (magic instanceof NativeFn) {
         args = args.map(expect)
+        if (magic.impure) markImpure(dynamics)
         if (magic instanceof NativeSyncFn) {
           try {return magic.fn.apply(env, args)}
           catch (e) {return raise(env, dynamics, e)}
         } else {
           const d = env.defer(() => ({
             action: 'external',
-            code: [['', callee]].concat(args.map(a => isLiteral(a) ? a : ['', a]))
+            code: [['', callee]].concat(args.map(a => isLiteral(a) ? a : ['', a])),
+            name: definitionName(env, dynamics),
+            frame: at, dynamics
           }))
-          magic.call(env, <Jaspr[]>args, (err, v) => {
+          env.within(d, () => magic.call(env, <Jaspr[]>args, (err, v) => {
             if (err) {
-              const resume = raise(env, dynamics, err)
-              if (resume instanceof Deferred) resume.await(v => d.resolve(v))
-              else d.resolve(resume)
+              const resumed = resume(env, d, at, () => raise(env, dynamics, err, at && at.code))
+              if (resumed instanceof Deferred) resumed.await(v => d.resolve(v))
+              else d.resolve(resumed)
             } else d.resolve(<Jaspr>v)
-          })
+          }))
           return d
         }
       } else if (code !== undefined) {
-        return evalExpr(env, <Scope>expect(scope), args, dynamics, code)
+        const arity = expect(callee[Names.arity])
+        if (isArity(arity) && (args.length < arity.min ||
+            (arity.max != null && args.length > arity.max))) {
+          return badArgs(
+            `expected ${arityString(arity)}, got ${args.length}`,
+            {fn: typeof arity.name === 'string' ? arity.name : callee,
+             expected: _.pick(arity, 'min', 'max'), actual: args.length})
+        }
+        const closureScope = <Scope>expect(scope)
+        if (env.profiler) {
+          const name = isArity(arity) ? arity.name : undefined
+          env.profiler.call(code, args, typeof name === 'string' ? name : undefined)
+        }
+        if (env.debugHook) {
+          const paused = env.debugHook.enter(env,
+            enterFrame(code, closureScope, args), dynamics)
+          if (paused) expect(paused)
+        }
+        if (env.compiler && !env.profiler && !env.debugHook && !env.checkTypes &&
+            !(code instanceof Deferred)) {
+          const compiled = env.compiler.compile(code)
+          if (compiled) return compiled(env, closureScope, args, dynamics)
+        }
+        return evalExpr(env, closureScope, args, dynamics, code)
       } else return notCallable('closure has no code')
     } else if (isArray(callee)) {
       if (callee.length === 0) return args
@@ -797,15 +1326,39 @@ export function call(
       // Wait for the deferred value to resolve, then try again.
       const deferred = env.defer(() => ({
         action: 'eval',
-        code: [['', callee]].concat(args.map(a => isLiteral(a) ? a : ['', a]))
+        code: [['', callee]].concat(args.map(a => isLiteral(a) ? a : ['', a])),
+        name: definitionName(env, dynamics)
       }))
-      e.waitingOn.await(() =>
-        waitFor(call(env, callee, args, dynamics), x => deferred.resolve(x)))
+      env.suspend(deferred, e.waitingOn)
+      e.waitingOn.await(() => settle(env, deferred,
+        resume(env, deferred, at, () => call(env, callee, args, dynamics))))
       return deferred
     } else throw e
   }
 }
 
+/**
+ * If the closure fields `fields` contain arity metadata, adds the name of the
+ * definition currently being evaluated (the value of `env.nameVar`) to it, so
+ * that arity errors can name the function.
+ */
+function nameArity(
+  env: Env,
+  dynamics: DynamicMap | undefined,
+  fields: JasprObject
+): JasprObject {
+  const arity = fields[Names.arity]
+  if (!isArity(<Jaspr>arity) || has(<Arity>arity, 'name')) return fields
+  for (let ds = dynamics; ds; ds = ds.next) {
+    if (ds.key === env.nameVar) {
+      if (typeof ds.value !== 'string') break
+      return Object.assign({}, fields,
+        {[Names.arity]: Object.assign({}, arity, {name: ds.value})})
+    }
+  }
+  return fields
+}
+
 /**
  * Evaluates the Jaspr expression `code` with the given environment and
  * bindings.
@@ -824,6 +1377,7 @@ export function evalExpr(
   dynamics: DynamicMap | undefined,
   code: Jaspr | Deferred
 ): Jaspr | Deferred {
+  const outer = currentFrame
   try {
     code = expect(code)
     if (isLiteral(code)) return code
@@ -842,6 +1396,18 @@ export function evalExpr(
         } else return value
       }
     } else if (isArray(code)) {
+      if (locationOf(code)) {
+        currentFrame = enterFrame(code, scope, $args)
+        // A paused debugger throws DeferredError, which evaluates `code` again
+        // once the debugger continues
+        if (env.debugHook) {
+          const paused = env.debugHook.enter(env, currentFrame, dynamics)
+          if (paused) expect(paused)
+        }
+      }
+      if (env.profiler) {
+        env.profiler.sample(env, currentPhase, currentFrame, dynamics)
+      }
       const hd = expect(code[0])
       if (hd === '') {
         if (code.length === 2) return code[1]
@@ -876,18 +1442,18 @@ export function evalExpr(
           const fields = evalExpr(env, scope, $args, dynamics, code[3])
           if (fields instanceof Deferred) {
             const d = env.defer(() => ({action: 'eval', code}))
-            fields.await(fields => Object.assign({
+            fields.await(fields => d.resolve(Object.assign({
               [env.closureName]: newScope,
               [Names.code]: closureCode,
               [magicSymbol]: closureMarker
-            }, fields))
+            }, nameArity(env, dynamics, <JasprObject>fields))))
             return d
           }
           return Object.assign({
             [env.closureName]: newScope,
             [Names.code]: closureCode,
             [magicSymbol]: closureMarker
-          }, fields)
+          }, nameArity(env, dynamics, <JasprObject>fields))
         }
         case Names.apply: {
           const [_, callee, args] = code
@@ -917,6 +1483,19 @@ export function evalExpr(
                 (<Deferred>newDynamics.value).await(value =>
                   newDynamics.value = value)
               }
+              if (dyn === env.traceVar) {
+                // Tracing is a property of fibers, so the body is evaluated in
+                // its own fiber
+                return then(env, newDynamics.value, enabled => enabled === null
+                  ? evalExpr(env, scope, $args, newDynamics, body)
+                  : env.tracing(toBool(enabled),
+                      () => evalExpr(env, scope, $args, newDynamics, body),
+                      () => ({
+                        action: 'eval', code: body,
+                        name: definitionName(env, dynamics)
+                      })),
+                  () => ({action: 'eval', code}))
+              }
               return evalExpr(env, scope, $args, newDynamics, body)
             }, () => ({action: 'eval', code}))
         }
@@ -1002,12 +1581,16 @@ export function evalExpr(
           evalDefs(env, scope, $args, dynamics, <JasprObject>expect(hd[1]))
         const body = hd[<any>unexpandedSymbol]
           ? macroExpand(env, newScope, dynamics, hd[2]): hd[2]
-        return evalExpr(env, newScope, [], dynamics, body)
+        const letArgs: JasprArray = []
+        if (env.profiler) env.profiler.enterLet($args, letArgs)
+        return evalExpr(env, newScope, letArgs, dynamics, body)
       }
   
       // calls
       else {
         const form = code
+        const type = env.checkTypes && typeof hd === 'string'
+          ? annotation(scope, hd) : null
         return then(env, evalExpr(env, scope, $args, dynamics, form[0]),
           callee => {
             const args = new Array<Jaspr | Deferred>(form.length - 1)
@@ -1016,6 +1599,7 @@ export function evalExpr(
               args[i - 1] = arg
               if (arg instanceof Deferred) arg.await(v => args[i - 1] = v)
             }
+            if (type) return typedCall(env, dynamics, <string>hd, type, callee, args)
             return call(env, callee, args, dynamics)
           }, () => ({action: 'eval', code}))
       }
@@ -1033,13 +1617,53 @@ export function evalExpr(
     if (e instanceof DeferredError) {
       // If a DeferredError was thrown, execution can't continue synchronously.
       // Wait for the deferred value to resolve, then try again.
-      const deferred = env.defer(() => ({action: 'eval', code}))
-      e.waitingOn.await(() =>
-        waitFor(evalExpr(env, scope, $args, dynamics, code),
-          x => deferred.resolve(x)))
+      const deferred = env.defer(() => ({
+        action: 'eval', code, name: definitionName(env, dynamics)
+      }))
+      env.suspend(deferred, e.waitingOn)
+      e.waitingOn.await(() => settle(env, deferred,
+        resume(env, deferred, outer, () => evalExpr(env, scope, $args, dynamics, code))))
       return deferred
     } else throw e
+  } finally { currentFrame = outer }
+}
+
+/**
+ * Calls `callee`, the function named `name`, after checking that the
+ * arguments `args` match its type annotation `type`. Then checks the return
+ * value. Used instead of {@link call} when {@link Env.checkTypes} is set.
+ */
+function typedCall(
+  env: Env,
+  dynamics: DynamicMap | undefined,
+  name: string,
+  type: FunctionType,
+  callee: Jaspr,
+  args: (Jaspr | Deferred)[]
+): Jaspr | Deferred {
+  const d = env.defer(() => ({
+    action: 'eval', code: [name, ...args], name: definitionName(env, dynamics)
+  }))
+  const at = currentFrame
+  let pending = args.length + 1
+  const ready = () => {
+    if (--pending > 0) return
+    const argsErr = argsTypeError(name, type, args)
+    if (argsErr) {
+      return waitFor(resume(env, d, at, () => raise(env, dynamics, argsErr, at && at.code)),
+        v => d.resolve(v))
+    }
+    waitFor(resume(env, d, at, () => call(env, callee, args, dynamics)), result => {
+      const returnErr = returnTypeError(name, type, result)
+      if (returnErr) {
+        waitFor(resume(env, d, at, () => raise(env, dynamics, returnErr, at && at.code)),
+          v => d.resolve(v))
+      } else d.resolve(result)
+    })
   }
+  args.forEach(arg => waitFor(arg, ready))
+  ready()
+  return d
 }
 
 /**
@@ -1066,6 +1690,39 @@ export function expandAndEval(
     () => ({action: 'eval', code}))
 }
 
+/**
+ * Tests whether the macroexpanded code `code` can be stored and reused by a
+ * later run of the interpreter. Expanded code cannot be reused if it is not
+ * yet fully resolved, if it contains values that cannot be represented as JSON
+ * (closures, dynamic variables, or closures marked for later expansion), or if
+ * it contains names that are unique to `env`.
+ *
+ * If `scope` is given, code that contains calls to functions with check macros
+ * in `scope` is also not reusable, so that it is checked again on every run.
+ */
+export function isReusableExpansion(
+  env: Env,
+  code: Jaspr | Deferred,
+  scope?: Scope
+): boolean {
+  if (code instanceof Deferred) return false
+  if (typeof code === 'string') return code !== env.closureName
+  if (typeof code === 'number') return isFinite(code)
+  if (isArray(code)) {
+    if (scope && scope.check && typeof code[0] === 'string' &&
+        scope.check[<string>code[0]] !== undefined) {
+      return false
+    }
+    return !(<any>code)[unexpandedSymbol] &&
+      _.every(code, c => isReusableExpansion(env, c, scope))
+  }
+  if (isObject(code)) {
+    return !(magicSymbol in code) && !(env.closureName in code) &&
+      _.every(Object.keys(code), k => isReusableExpansion(env, code[k], scope))
+  }
+  return true
+}
+
 /**
  * Tests whether all of the keys in `defs` are valid context-prefixed names.
  * Returns `null` if all of the names are valid, or a {@link JasprError} if any
@@ -1113,6 +1770,26 @@ export function validateNames(
   return null
 }
 
+/**
+ * Returns `scope`, with the type annotations of every name that `defs` defines
+ * in the `value` context hidden, unless `defs` also annotates that name. This
+ * keeps a local binding from being checked against the type of a function with
+ * the same name in an enclosing scope.
+ */
+function shadowTypes(scope: Scope, defs: JasprObject): Scope {
+  if (!isObject(scope.type)) return scope
+  const types = scope.type
+  const hidden = Object.keys(defs).filter(name => {
+    const lastDot = name.lastIndexOf('.')
+    if (lastDot > -1 && name.slice(0, lastDot) !== 'value') return false
+    const ident = name.slice(lastDot + 1)
+    return types[ident] !== undefined && !has(defs, `type.${ident}`)
+  }).map(name => name.slice(name.lastIndexOf('.') + 1))
+  if (hidden.length === 0) return scope
+  return _.create(scope, {type: Object.assign(Object.create(types),
+    _.fromPairs(hidden.map((k): [string, undefined] => [k, undefined])))})
+}
+
 /**
  * Macroexpands and evaluates all of the values of the _definitions object_
  * `defs`, then returns a scope created by extending `baseScope` with the
@@ -1138,6 +1815,15 @@ export function validateNames(
  * @param namespace Optional namespace for the new definitions. If present,
  *   fully-qualified versions of each name in `defs` will be included in the
  *   returned scope.
+ * @param compiled Optional macroexpanded versions of the values in `defs`, by
+ *   name. Values found in `compiled` are evaluated without being expanded
+ *   again; the expansions of all other values are added to `compiled`, unless
+ *   expanding them called an impure function (see {@link NativeFn.impure}),
+ *   in which case expanding them again may give a different result.
+ * @param onExpand Optional callback that is called with the name and the
+ *   macroexpanded value of each definition (except `doc`, `test`, and `type`
+ *   definitions), along with the returned scope, before the value is
+ *   evaluated.
  */
 export function evalDefs(
   env: Env,
@@ -1145,7 +1831,9 @@ export function evalDefs(
   $args: JasprArray,
   dynamics: DynamicMap | undefined,
   defs: JasprObject,
-  namespace?: Namespace
+  namespace?: Namespace,
+  compiled?: {[name: string]: Jaspr | Deferred},
+  onExpand?: (name: string, expanded: Jaspr, scope: Scope) => void
 ): Scope {
   const byContext: {[ctx: string]: JasprObject} = {}
   const names: [string, string, string[]][] = []
@@ -1157,19 +1845,20 @@ export function evalDefs(
       ? [ident, `${namespace.$module}.${ident}`, qualify(namespace, ident)]
       : [ident]
     if (!(ctx in byContext)) byContext[ctx] = {}
-    if (ctx === 'test' || ctx === 'doc') {
+    if (ctx === 'test' || ctx === 'doc' || ctx === 'type') {
       for (let k of qualified) byContext[ctx][k] = defs[name]
     } else {
       const d = env.defer(() => ({
-        action: 'eval', code: defs[name]
+        action: 'eval', code: defs[name], name: _.last(qualified)
       }))
       for (let k of qualified) byContext[ctx][k] = d
       names.push([name, ctx, qualified])
     }
   }
-  const scope = _.create(baseScope, _.mapValues(byContext,
+  const shadowed = shadowTypes(baseScope, defs)
+  const scope = _.create(shadowed, _.mapValues(byContext,
     (obj, ctx) => Object.assign(
-      Object.create(<JasprObject>baseScope[ctx] || null), obj)))
+      Object.create(<JasprObject>shadowed[ctx] || null), obj)))
   if (namespace) {
     scope.qualified = _.create(scope.qualified,
       _(defs).keys().filter(k => !/^test[.][^.]+$/.test(k)).flatMap(name => {
@@ -1182,11 +1871,26 @@ export function evalDefs(
   for (let [name, ctx, idents] of names) {
     const body = defs[name]
     const deferred = byContext[ctx][idents[0]]
-    const value = expandAndEval(env, scope, $args, {
-        key: env.nameVar, value: <string>_.last(idents),
-        next: dynamics
-      }, body)
-    if (deferred instanceof Deferred) waitFor(value, v => deferred.resolve(v))
+    const defDynamics = {
+      key: env.nameVar, value: <string>_.last(idents), next: dynamics
+    }
+    const expansion: JasprObject = {pure: true}
+    const expandDynamics = compiled === undefined ? defDynamics
+      : {key: expansionVar, value: expansion, next: defDynamics}
+    const evaluate = () => compiled !== undefined && has(compiled, name)
+      ? then(env, compiled[name], expanded => {
+          if (onExpand) onExpand(name, expanded, scope)
+          return evalExpr(env, scope, $args, defDynamics, expanded)
+        }, () => ({action: 'eval', code: body, name: defDynamics.value}))
+      : then(env, macroExpand(env, scope, expandDynamics, body), expanded => {
+          if (compiled !== undefined && expansion.pure) compiled[name] = expanded
+          if (onExpand) onExpand(name, expanded, scope)
+          return evalExpr(env, scope, $args, defDynamics, expanded)
+        }, () => ({action: 'eval', code: body, name: defDynamics.value}))
+    // Fibers spawned while evaluating the definition are part of its fiber
+    const value = deferred instanceof Deferred
+      ? env.within(deferred, evaluate) : evaluate()
+    if (deferred instanceof Deferred) settle(env, deferred, value)
     for (let ident of idents) scope[ctx][ident] = value
     if (value instanceof Deferred) value.await(v => {
       for (let ident of idents) scope[ctx][ident] = v
@@ -1194,3 +1898,35 @@ export function evalDefs(
   }
   return scope
 }
+
+/**
+ * Replaces the definition of `name` in the `value` context that is visible from
+ * `scope` with `value`. The scope that defines `name` is modified in place, so
+ * closures that were created in that scope also see the new value. The
+ * qualified names of the definition (see `scope.qualified`) are replaced too,
+ * if that scope binds them to the same value.
+ *
+ * Returns false, and changes nothing, if `name` is not defined in `scope`.
+ */
+export function redefine(
+  scope: Scope,
+  name: string,
+  value: Jaspr | Deferred
+): boolean {
+  let owner: JasprObject | null = isObject(scope.value) ? scope.value : null
+  while (owner && !Object.prototype.hasOwnProperty.call(owner, name)) {
+    owner = Object.getPrototypeOf(owner)
+  }
+  if (!owner) return false
+  const old = owner[name], names = [name]
+  const qualified = scope.qualified[name]
+  if (typeof qualified === 'string') {
+    names.push(qualified, qualified.replace(/@[^@]*$/, ''))
+  }
+  for (let key of names) {
+    if (Object.prototype.hasOwnProperty.call(owner, key) && owner[key] === old) {
+      owner[key] = value
+    }
+  }
+  return true
+}
@@ -32,7 +32,7 @@ export type Err =
   'NoBinding' | 'NoKey' | 'NoMatch' | 'BadName' | 'BadArgs' | 'BadModule' |
   'BadPattern' | 'NotCallable' | 'NoPrimitive' | 'NotJSON' | 'ParseFailed' |
   'EvalFailed' | 'ReadFailed' | 'WriteFailed' | 'NativeError' |
-  'NotImplemented' | 'AssertFailed'
+  'NotImplemented' | 'AssertFailed' | 'NotValid' | 'Deadlock'
 
 /** An error signal object */
 export interface JasprError extends JasprObject {
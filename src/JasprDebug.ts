@@ -0,0 +1,149 @@
+/**
+ * This file defines the built-in `jaspr.debug` module.
+ *
+ * `jaspr.debug` exposes the interpreter's fibers to Jaspr code, so that a
+ * running Jaspr program can inspect (and cancel) its own fibers, pause in the
+ * debugger (see `Debugger.ts`) at `breakpoint!` calls, and turn tracing (see
+ * `Trace.ts`) on and off with the `trace` dynamic variable. Like
+ * `jaspr.primitive`, it is defined in the host language, and is only
+ * available when the program runs on a {@link Root} environment.
+ */
+
+import {Jaspr, JasprObject, Deferred} from './Jaspr'
+import {Env, qualify} from './Interpreter'
+import {currentSchema, Module} from './Module'
+import {Branch, Fiber, Root} from './Fiber'
+import {breakpoint} from './Debugger'
+import {sha256} from './Cache'
+import {NativeFn, NativeSyncFn} from './NativeFn'
+import * as Names from './ReservedNames'
+import * as _ from 'lodash'
+
+const moduleBase: Module = {
+  $schema: currentSchema,
+  $module: Names.debugModule,
+  $version: Names.version,
+  $author: 'Adam R. Nelson <adam@nels.onl>',
+  $doc: `
+    Introspection of the running Jaspr program's fibers, for debugging tools.
+    Fibers are identified by number; only fibers that have not resolved and
+    have not been canceled can be inspected.
+  `.trim().replace(/\s+/gm, ' '),
+  $main: null, $import: {}, $export: {},
+  $hash: sha256(`${Names.debugModule}@${Names.version}`),
+  value: {}, macro: {}, check: {}, type: {}, doc: {}, test: {}, qualified: {}
+}
+
+/** Returns the root of the environment a native function was called in. */
+function rootOf(env: Env): Root {
+  if (env instanceof Branch) return env.root
+  throw {err: 'NativeError', why: `${Names.debugModule} requires a fiber environment`}
+}
+
+/** Finds the live fiber with id `id`, or raises `NoKey` if there is none. */
+function liveFiber(env: Env, id: Jaspr): Fiber {
+  const fiber = rootOf(env).fibers.get(+<any>id)
+  if (fiber && !fiber.isCanceled()) return fiber
+  throw {err: 'NoKey', why: 'no live fiber with this id', key: id}
+}
+
+/** Describes `fiber` as a Jaspr object. */
+function fiberInfo(fiber: Fiber): JasprObject {
+  const {action, code, name} = fiber.props()
+  const resolved = code instanceof Deferred ? code.value : code
+  const waitingOn = fiber.waitingOn
+  return {
+    id: fiber.id,
+    action,
+    name: name || null,
+    code: resolved === undefined ? null : resolved,
+    parent: fiber.parent ? fiber.parent.id : null,
+    waitingOn: waitingOn ? waitingOn.id : null
+  }
+}
+
+const functions: {[name: string]: NativeFn} = {
+  'fibers!': new NativeSyncFn(function() {
+    return rootOf(this).liveFibers().map(f => f.id)
+  }),
+  'currentFiber!': new NativeSyncFn(function() {
+    const fiber = Fiber.current()
+    return fiber ? fiber.id : null
+  }),
+  'fiberInfo!': new NativeSyncFn(function(id) {
+    return fiberInfo(liveFiber(this, id))
+  }),
+  'fiberDescription!': new NativeSyncFn(function(id) {
+    return liveFiber(this, id).descriptionString(false)
+  }),
+  'fiberStackTrace!': new NativeSyncFn(function(id) {
+    return liveFiber(this, id).stackTrace().map(f => f.id)
+  }),
+  'fiberCancel!': new NativeSyncFn(function(id) {
+    const fiber = liveFiber(this, id)
+    if (fiber.branch === fiber.branch.root) throw {
+      err: 'BadArgs', why: 'cannot cancel the root branch',
+      fn: 'fiberCancel!', args: [id]
+    }
+    fiber.branch.cancel()
+    return true
+  }),
+  'breakpoint!': breakpoint
+}
+
+const docs: {[name: string]: string} = {
+  'fibers!': 'Returns the ids of every live fiber, in the order they were created.',
+  'currentFiber!': 'Returns the id of the fiber that is currently running, or null.',
+  'fiberInfo!': `
+    Returns an object describing the live fiber with the given id: its
+    \`action\`, \`code\`, and definition \`name\`, the id of its \`parent\` (the
+    fiber that created it), and the id of the fiber it is \`waitingOn\`, if any.
+  `,
+  'fiberDescription!': `
+    Returns a human-readable description of the live fiber with the given id,
+    including the chain of fibers it is waiting on.
+  `,
+  'fiberStackTrace!': `
+    Returns the ids of the live fiber with the given id and all of its
+    ancestors, starting with the fiber itself.
+  `,
+  'fiberCancel!': `
+    Cancels the junction branch of the live fiber with the given id, which also
+    cancels every other fiber in that branch. Fibers in the root branch cannot
+    be canceled.
+  `,
+  'breakpoint!': `
+    Does nothing and returns null, but, if a debugger is attached (see the
+    \`--debug\` and \`--break\` options), pauses the current fiber before it is
+    called.
+  `,
+  'trace': `
+    Dynamic variable that controls execution tracing (see the \`--trace\`
+    option). Fibers created while it is true are traced, and fibers created
+    while it is false are not. Defaults to null, which leaves tracing as it is.
+  `
+}
+
+/** Names of all of the module's values, including non-function values */
+const names = Object.keys(functions).concat(['trace'])
+
+moduleBase.$export = _(names).map(k => [k, k]).fromPairs().value()
+
+moduleBase.qualified =
+  _(names)
+    .flatMap(k => [
+      [k, qualify(moduleBase, k)],
+      [`${Names.debugModule}.${k}`, qualify(moduleBase, k)]])
+    .fromPairs().value()
+
+export default function JasprDebug(env: Env): Module {
+  const value: JasprObject =
+    _.mapValues(functions, (fn: NativeFn) => fn.toClosure(env))
+  value.trace = env.traceVar
+  const doc: JasprObject = _.mapValues(docs, d => d.trim().replace(/\s+/gm, ' '))
+  ;[value, doc].forEach(ctx => _.assignIn(ctx,
+    _.mapKeys(ctx, (v, k) => `${Names.debugModule}.${k}`),
+    _.mapKeys(ctx, (v, k) => qualify(moduleBase, k))
+  ))
+  return _.create(moduleBase, {value, doc})
+}
@@ -12,7 +12,11 @@ import {
   isObject, isMagic, resolveFully, has, toString
 } from './Jaspr'
 import {isDynamic, makeDynamic, Env, qualify} from './Interpreter'
+import {Fiber} from './Fiber'
+import {summarize} from './Trace'
 import {currentSchema, Module} from './Module'
+import {sha256} from './Cache'
+import {isValid, validationError} from './Schema'
 import {NativeFn, NativeSyncFn, NativeAsyncFn} from './NativeFn'
 import Chan from './Chan'
 import * as Names from './ReservedNames'
@@ -32,7 +36,8 @@ const moduleBase: Module = {
     instead.
   `.trim().replace(/\s+/gm, ' '),
   $main: null, $import: {}, $export: {},
-  value: {}, macro: {}, check: {}, doc: {}, test: {}, qualified: {}
+  $hash: sha256(`${Names.primitiveModule}@${Names.version}`),
+  value: {}, macro: {}, check: {}, type: {}, doc: {}, test: {}, qualified: {}
 }
 
 const constants: JasprObject = {
@@ -94,14 +99,24 @@ const functions: {[name: string]: NativeFn} = {
   'chanMake!': new NativeSyncFn(function() { return Chan.make() }),
   'chan?': new NativeSyncFn(function(it) { return Chan.isChan(it) }),
   'chanSend!': new NativeAsyncFn(function([msg, chan], cb) {
+    const c = <Chan>(<any>chan)[magicSymbol], fiber = Fiber.current()
     resolveFully(msg, (err, msg) => {
-      const cancel =
-        (<Chan>(<any>chan)[magicSymbol]).send(msg, x => cb(null, x))
+      if (this.traceActive) {
+        this.trace({event: 'send', chan: c.id, message: summarize(msg)}, fiber)
+      }
+      const cancel = c.send(msg, x => cb(null, x))
       if (cancel) this.onCancel(cancel)
     })
   }),
   'chanRecv!': new NativeAsyncFn(function([chan], cb) {
-    const cancel = (<Chan>(<any>chan)[magicSymbol]).recv(x => cb(null, x))
+    const c = <Chan>(<any>chan)[magicSymbol], fiber = Fiber.current()
+    const cancel = c.recv(x => {
+      if (this.traceActive) this.trace({
+        event: 'recv', chan: c.id, message: x.done ? null : summarize(x.value),
+        done: x.done
+      }, fiber)
+      cb(null, x)
+    })
     if (cancel) this.onCancel(cancel)
   }),
   'chanClose!': new NativeSyncFn(function(chan) {
@@ -284,6 +299,19 @@ const functions: {[name: string]: NativeFn} = {
   objectValues: new NativeSyncFn(function(obj) {
     const o = <any>obj
     return Object.keys(o).map(k => o[k])
+  }),
+
+  // JSON Schema
+  validate: new NativeAsyncFn(function([schema, it], cb) {
+    resolveFully(<any>[schema, it], (err, [schema, it]: any) => {
+      const invalid = validationError(schema, it)
+      if (invalid) cb(invalid, null)
+      else cb(null, it)
+    })
+  }),
+  'valid?': new NativeAsyncFn(function([schema, it], cb) {
+    resolveFully(<any>[schema, it], (err, [schema, it]: any) =>
+      cb(null, isValid(schema, it)))
   })
 }
 
@@ -302,6 +330,10 @@ const macros: {[name: string]: string} = {
   then: Names.then
 }
 
+// Functions whose names end in `!` have side effects, or return a different
+// value each time they are called
+_.forIn(functions, (fn, name) => { fn.impure = name.endsWith('!') })
+
 moduleBase.$export =
   _([constants, functions, macros])
     .flatMap(_.keys).map(k => [k, k])
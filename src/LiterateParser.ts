@@ -88,12 +88,12 @@ export function parseMarkdown(src: string, filename?: string): JsonObject {
         if (rest.startsWith(closeFence)) closeFence = null
         else if (!ignoreFence) {
           testParser.read(rest + '\n',
-            {filename, line: n + 1, column: quoteIndent.length})
+            {filename, line: n + 1, column: quoteIndent.length + 1})
         }
       } else if (match = indentedCode.exec(rest)) {
         const [_, indent, code] = match
         testParser.read(code + '\n',
-          {filename, line: n + 1, column: quoteIndent.length + indent.length})
+          {filename, line: n + 1, column: quoteIndent.length + indent.length + 1})
       } else if (match = codeFence.exec(rest)) {
         const [_, fence, lang] = match
         closeFence = fence
@@ -104,17 +104,17 @@ export function parseMarkdown(src: string, filename?: string): JsonObject {
       pushTests()
       if (closeFence) throw new Parser.ParseError(
         `Blockquote containing code fence ${closeFence} closed without closing fence`,
-        {filename, line: n + 1, column: 0})
+        {filename, line: n + 1, column: 1})
     }
     if (closeFence) {
       // TODO: Handle spaces in front of closing code fence
       if (line.startsWith(closeFence)) closeFence = null
       else if (!ignoreFence) {
-        srcParser.read(line + '\n', {filename, line: n + 1, column: 0})
+        srcParser.read(line + '\n', {filename, line: n + 1, column: 1})
       }
     } else if (match = indentedCode.exec(line)) {
       const [_, indent, code] = match
-      srcParser.read(code + '\n', {filename, line: n + 1, column: indent.length})
+      srcParser.read(code + '\n', {filename, line: n + 1, column: indent.length + 1})
     } else if (match = codeFence.exec(line)) {
       const [_, fence, lang] = match
       closeFence = fence
@@ -0,0 +1,93 @@
+/**
+ * Lockfiles (`jaspr.lock`) record exactly which version of each remote import
+ * was loaded, so that later runs load the same code, even offline.
+ *
+ * A lockfile is a JSON object with one section per import source (`http`,
+ * `git`), each of which maps an import location to a lock entry.
+ */
+
+import * as fs from 'fs'
+import * as _ from 'lodash'
+import {JsonObject} from './Jaspr'
+import {fsError} from './Cache'
+
+export const lockfileName = 'jaspr.lock'
+
+/** A single lockfile entry. The keys it contains depend on the source type. */
+export interface LockEntry extends JsonObject {}
+
+const openLockfiles = new Map<string, Promise<Lockfile>>()
+
+class Lockfile {
+  readonly filename: string
+  readonly sections: {[source: string]: {[location: string]: LockEntry}}
+  private saved: Promise<void> = Promise.resolve()
+
+  constructor(filename: string, sections: JsonObject = {}) {
+    this.filename = filename
+    this.sections = <any>sections
+  }
+
+  /** Returns the entry for `location` in section `source`, if one exists. */
+  get(source: string, location: string): LockEntry | undefined {
+    const section = this.sections[source]
+    return section && _.has(section, location) ? section[location] : undefined
+  }
+
+  /**
+   * Adds or replaces the entry for `location` in section `source`, then writes
+   * the lockfile. Writes are queued, so concurrent updates cannot clobber each
+   * other.
+   */
+  set(source: string, location: string, entry: LockEntry): Promise<void> {
+    const section =
+      this.sections[source] || (this.sections[source] = Object.create(null))
+    section[location] = entry
+    const save = () => this.save()
+    return this.saved = this.saved.then(save, save)
+  }
+
+  private save(): Promise<void> {
+    const sorted = _(this.sections).toPairs().sortBy(0)
+      .map(([source, section]) =>
+        [source, _(section).toPairs().sortBy(0).fromPairs().value()])
+      .fromPairs().value()
+    return new Promise<void>((resolve, reject) =>
+      fs.writeFile(this.filename, JSON.stringify(sorted, null, 2) + '\n', err =>
+        err ? reject(fsError(err, 'WriteFailed', 'failed to write lockfile',
+                             this.filename))
+            : resolve()))
+  }
+}
+
+namespace Lockfile {
+  /**
+   * Reads the lockfile `filename`, or creates an empty lockfile if it does not
+   * exist. Every call with the same filename returns the same `Lockfile`.
+   */
+  export function open(filename: string): Promise<Lockfile> {
+    let lockfile = openLockfiles.get(filename)
+    if (!lockfile) {
+      lockfile = new Promise<Lockfile>((resolve, reject) =>
+        fs.readFile(filename, (err, data) => {
+          if (err) {
+            if (err.code === 'ENOENT') resolve(new Lockfile(filename))
+            else reject(fsError(err, 'ReadFailed', 'failed to read lockfile', filename))
+            return
+          }
+          let sections: JsonObject
+          try { sections = JSON.parse(data.toString('utf8')) }
+          catch (ex) {
+            return reject({
+              err: 'ParseFailed', why: 'lockfile is not valid JSON', filename
+            })
+          }
+          resolve(new Lockfile(filename, sections))
+        }))
+      openLockfiles.set(filename, lockfile)
+    }
+    return lockfile
+  }
+}
+
+export default Lockfile
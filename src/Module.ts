@@ -2,17 +2,28 @@ import * as _ from 'lodash'
 import * as XRegExp from 'xregexp'
 import * as fs from 'fs'
 import * as path from 'path'
+import * as url from 'url'
 import {
   Jaspr, JasprObject, JasprError, Json, JsonObject, Deferred, Callback,
   ErrCallback, isArray, isObject, has
 } from './Jaspr'
 import {
-  Scope, emptyScope, mergeScopes, Env, evalDefs, expandAndEval, isLegalName,
-  Namespace, qualify, validateNames
+  Scope, emptyScope, mergeScopes, Env, evalDefs, macroExpand, evalExpr, then,
+  isLegalName, Namespace, qualify, validateNames, isReusableExpansion, waitFor
 } from './Interpreter'
-import {prefix, primitiveModule} from './ReservedNames'
+import {prefix, primitiveModule, stdlibModule, version} from './ReservedNames'
 import Parser from './Parser'
+import prettyPrint from './PrettyPrint'
+import chalk from 'chalk'
 import {parseMarkdown, markdownExtensions} from './LiterateParser'
+import {satisfies, compareVersions, isVersionConstraint} from './Version'
+import {defaultCacheDir, sha256, findCompiled, storeCompiled} from './Cache'
+import {lockfileName} from './Lockfile'
+import {isHttpUrl, loadHttp} from './HttpLoader'
+import {loadGit} from './GitLoader'
+import {findUndefinedNames} from './Analyzer'
+import {schemaErrors} from './Schema'
+import {LocationTable, locationTable, restoreLocations} from './SourceLocation'
 
 /** The JSON schema URL that all Jaspr modules must contain */
 export const currentSchema = "http://adam.nels.onl/schema/jaspr/module"
@@ -32,14 +43,32 @@ export interface Import extends JsonObject {
   via: ImportSource
   /** Name of the module to import */
   module: string
-  /** Optional module version; if not present, most recent version */
+  /** 
+   * Optional version constraint (see `Version.ts`); if not present, any
+   * version is accepted
+   */
   version: string | null
   /** 
-   * Names from the module to include in the top-level scope (unqualified).
-   * May create aliases. `false` is equivalent to `{}`; `true` imports
-   * everything.
+   * Names from the module to include in the top-level scope (unqualified), as
+   * a map from alias to exported name.
+   */
+  names: { [as: string]: string }
+  /**
+   * Glob patterns (`*` matches any characters, `?` matches one character).
+   * Every exported name that matches one of these patterns is also included
+   * in the top-level scope. In the `names` section of an import, `true` is
+   * equivalent to the pattern `*`.
    */
-  names: boolean | { [as: string]: string }
+  patterns: string[]
+  /** Exported names that should not be included by `patterns` */
+  except: string[]
+  /** If not null, names included by `patterns` are renamed `prefix-name` */
+  prefix: string | null
+  /** For `via: git` only: the tag, branch, or commit to check out */
+  ref: string | null
+  /** For `via: git` only: path of the module's file inside the repository. If
+   *  null, the module is found by name in the repository's root. */
+  path: string | null
 }
 
 export interface ModuleSource {
@@ -63,15 +92,22 @@ export interface Module extends Scope, Namespace {
   $main: Jaspr | Deferred
   $import: { [namespace: string]: Import }
   $export: { [as: string]: string }
+  /**
+   * Hash of the module's source, the sources of all of its dependencies, and
+   * the interpreter version; used to find the module's precompiled definitions.
+   * Null if the module's dependencies are unknown.
+   */
+  $hash: string | null
 }
 
 const githubRegex = /^https?:\/\/(www[.])?github[.]com\/[^\/]+\/[^\/]+/
+const gitRegex = /^git([+]\w+)?:\/\/|^[^\/]+@[^\/]+:|[.]git\/?$/
 const httpRegex = /^https?:\/\/.+/
 const moduleSegment = '(\\pL|\\p{Pd}|\\p{Pc})(\\pL|\\pN|\\p{Pd}|\\p{Pc}|\\p{Sk})*'
 const moduleNameRegex = XRegExp(`^${moduleSegment}([.]${moduleSegment})*$`, 'A')
 
 function importSource(from: string): ImportSource {
-  if (githubRegex.test(from)) return 'git'
+  if (githubRegex.test(from) || gitRegex.test(from)) return 'git'
   else if (httpRegex.test(from)) return 'http'
   else if (moduleNameRegex.test(from)) return 'local'
   return 'file'
@@ -89,9 +125,15 @@ function normalizeImports(imports?: Json): { [namespace: string]: Import } {
   return _.mapValues(imports, (imp, name): Import => {
     if (!moduleNameRegex.test(name)) throw {err: 'illegal import name', name}
     if (typeof imp === 'boolean') {
-      return {from: name, via: importSource(name), module: name, version: null, names: imp}
+      return <Import>Object.assign({
+        from: name, via: importSource(name), module: name, version: null,
+        ref: null, path: null
+      }, normalizeImportNames(imp, name))
     } else if (typeof imp === 'string') {
-      return {from: imp, via: importSource(imp), module: name, version: null, names: {}}
+      return <Import>Object.assign({
+        from: imp, via: importSource(imp), module: name, version: null,
+        ref: null, path: null
+      }, normalizeImportNames(false, name))
     } else if (isObject(imp)) {
       if (imp.hasOwnProperty('from')) {
         if (typeof imp.from !== 'string') {
@@ -116,12 +158,128 @@ function normalizeImports(imports?: Json): { [namespace: string]: Import } {
           throw {err: 'import.module is not a string', name, import: imp}
         }
       } else imp.module = imp.via === 'local' ? imp.from : name
-      imp.names = normalizeExports(imp.names, 'imported name')
-      return <Import>imp
+      const version = typeof imp.version === 'number' ? '' + imp.version : imp.version
+      if (version == null) imp.version = null
+      else if (typeof version === 'string' && isVersionConstraint(version)) {
+        imp.version = version
+      } else throw {
+        err: 'import.version is not a valid version constraint', name, import: imp
+      }
+      for (let key of ['ref', 'path']) {
+        if (imp[key] == null) imp[key] = null
+        else if (imp.via !== 'git') {
+          throw {err: `import.${key} is only supported for git imports`, name, import: imp}
+        } else if (typeof imp[key] !== 'string') {
+          throw {err: `import.${key} is not a string`, name, import: imp}
+        }
+      }
+      return <Import>Object.assign(imp, normalizeImportNames(imp.names, name))
     } else throw {err: 'illegal import value', name, import: imp}
   })
 }
 
+const globRegex = /[*?]/
+
+/**
+ * Normalizes the `names` section of an import. It may be a boolean, an array
+ * of names and glob patterns, or an object containing any of:
+ *
+ * - `alias: name` pairs
+ * - glob patterns, with the value `true`
+ * - `$except`: an array of names to exclude from the glob patterns
+ * - `$prefix`: a prefix for names included by glob patterns; if there are no
+ *   other names or patterns, everything is imported with this prefix
+ */
+function normalizeImportNames(names: Json | undefined, name: string): {
+  names: {[as: string]: string}, patterns: string[], except: string[],
+  prefix: string | null
+} {
+  const out = {
+    names: <{[as: string]: string}>{}, patterns: <string[]>[],
+    except: <string[]>[], prefix: <string | null>null
+  }
+  if (names == null || names === false) return out
+  if (names === true) {
+    out.patterns.push('*')
+    return out
+  }
+  if (isArray(names)) {
+    names = <JsonObject>_(names).map(key => {
+      if (typeof key !== 'string') {
+        throw {err: 'imported name is not a string', name, value: key}
+      }
+      return [key, globRegex.test(key) || key]
+    }).fromPairs().value()
+  }
+  if (!isObject(names)) {
+    throw {err: 'imported names is not a boolean, object, or array', name}
+  }
+  for (let key in names) {
+    const value = names[key]
+    if (key === '$except') {
+      const except = typeof value === 'string' ? [value] : value
+      if (!isArray(except) || !_.every(except, e => typeof e === 'string')) {
+        throw {err: 'imported names $except is not an array of strings', name, value}
+      }
+      out.except.push(...<string[]>except)
+    } else if (key === '$prefix') {
+      if (typeof value !== 'string' || !isLegalName(value)) {
+        throw {err: 'imported names $prefix is not a legal name', name, value}
+      }
+      out.prefix = value
+    } else if (globRegex.test(key)) {
+      if (value === true) out.patterns.push(key)
+      else if (value !== false) {
+        throw {err: 'imported name pattern must have the value true', name, key, value}
+      }
+    } else {
+      if (!isLegalName(key)) throw {err: 'illegal imported name key', name, key, value}
+      if (typeof value !== 'string') {
+        throw {err: 'imported name is not a string', name, key, value}
+      }
+      if (!isLegalName(value)) throw {err: 'illegal imported name value', name, key, value}
+      out.names[key] = value
+    }
+  }
+  if (out.prefix != null && out.patterns.length === 0 && _.isEmpty(out.names)) {
+    out.patterns.push('*')
+  }
+  return out
+}
+
+function globToRegExp(glob: string): RegExp {
+  return new RegExp('^' + glob.split(/([*?])/).map(part =>
+    part === '*' ? '.*' : part === '?' ? '.' : _.escapeRegExp(part)
+  ).join('') + '$')
+}
+
+/**
+ * Resolves the glob patterns, exclusions, and prefix of an import against the
+ * exports of `module`, returning the import's names as a map from alias to
+ * exported name. Throws a `BadModule` error if a pattern matches nothing or an
+ * excluded name is not exported.
+ */
+function resolveImportNames(
+  module: Module,
+  alias: string,
+  {names, patterns, except, prefix}: Import
+): {[as: string]: string} {
+  const exported = Object.keys(module.$export)
+  const unmatched = patterns.filter(p => !exported.some(e => globToRegExp(p).test(e)))
+  const missing = except.filter(e => !has(module.$export, e))
+  if (unmatched.length > 0 || missing.length > 0) {
+    throw unexportedError(module, alias, [...unmatched, ...missing])
+  }
+  const out: {[as: string]: string} = Object.create(null)
+  const regexes = patterns.map(globToRegExp)
+  for (let name of exported) {
+    if (except.indexOf(name) < 0 && regexes.some(r => r.test(name))) {
+      out[prefix == null ? name : `${prefix}-${name}`] = name
+    }
+  }
+  return Object.assign(out, names)
+}
+
 function normalizeExports(exports?: Json, name = 'export'): { [as: string]: string } {
   if (exports == null) return {}
   if (isArray(exports)) {
@@ -135,16 +293,145 @@ function normalizeExports(exports?: Json, name = 'export'): { [as: string]: stri
     const value = exports[key]
     if (!isLegalName(key)) throw {err: `illegal ${name} key`, key, value}
     if (typeof value !== 'string') throw {err: `${name} is not a string`, key, value}
-    if (!isLegalName(value)) throw {err: `illegal ${name} value`, key, value}
+    if (!isLegalName(value) && reexportedAlias(value) == null) {
+      throw {err: `illegal ${name} value`, key, value}
+    }
   }
   return <any>exports
 }
 
+/**
+ * If the exported name `exported` is a re-export of an imported name
+ * (`alias.name`), returns the import alias; otherwise, returns null.
+ */
+function reexportedAlias(exported: string): string | null {
+  const lastDot = exported.lastIndexOf('.')
+  if (lastDot < 0) return null
+  const alias = exported.slice(0, lastDot)
+  return moduleNameRegex.test(alias) && isLegalName(exported.slice(lastDot + 1))
+    ? alias : null
+}
+
+/**
+ * Returns the fully-qualified name that the export `as` of `module` refers to.
+ * A re-export keeps the fully-qualified name of the original definition, so
+ * that it is the same no matter which module it was imported through.
+ */
+function exportedIdentity(module: Module, as: string): string {
+  const exported = module.$export[as]
+  return reexportedAlias(exported) != null
+    ? module.qualified[exported]
+    : qualify(module, exported)
+}
+
+/** Options for {@link readModuleFile} */
+export interface ReadModuleOptions {
+  /** If present, parsed module sources are cached in this directory */
+  cacheDir?: string
+  /** Absolute paths of the files already read while loading the current
+   *  module; if present, the file is read as an include file, and its path is
+   *  added to this list */
+  history?: string[]
+}
+
+/**
+ * Stores the source locations of the cached code `code` in `section` of the
+ * cache, with the same hash as the code itself.
+ */
+function storeLocations(
+  cacheDir: string,
+  section: string,
+  hash: string,
+  code: Jaspr | Deferred,
+  cb: ErrCallback<string>
+): void {
+  storeCompiled(cacheDir, `${section}-locations`, hash, locationTable(code), cb)
+}
+
+/**
+ * Restores the source locations of the cached code `code`, which was read from
+ * `section` of the cache, then calls `cb` with true. If the locations were not
+ * cached (because the cache entry predates source locations), calls `cb` with
+ * false, and the entry should be treated as missing.
+ */
+function findLocations(
+  cacheDir: string,
+  section: string,
+  hash: string,
+  code: Jaspr,
+  cb: (found: boolean) => void
+): void {
+  findCompiled(cacheDir, `${section}-locations`, hash, (err, table) => {
+    if (err == null && isObject(table) &&
+        isArray(table.filenames) && isArray(table.positions)) {
+      restoreLocations(code, <LocationTable>table)
+      cb(true)
+    } else cb(false)
+  })
+}
+
+/**
+ * Parses the contents `data` of the module file `filename`. If `cacheDir` is
+ * present, the parsed source (and its source locations) is stored in (or read
+ * from) the cache, keyed by the filename, the file's contents, and the
+ * interpreter version.
+ */
+function parseModuleSource(
+  filename: string,
+  data: Buffer,
+  cacheDir: string | undefined,
+  cb: ErrCallback<Json>
+): void {
+  function parse(): Json {
+    if (_.some(markdownExtensions, e => filename.endsWith(e))) {
+      return parseMarkdown(data.toString('utf8'), filename)
+    } else {
+      const parser = new Parser(filename)
+      parser.read(data.toString('utf8'))
+      return parser.getOneResult()
+    }
+  }
+  function parseOrFail(): Json | undefined {
+    try {
+      return parse()
+    } catch (ex) {
+      if (ex instanceof Parser.ParseError) {
+        const {filename, line, column} = ex.location
+        cb({
+          err: 'ParseFailed', why: ex.message,
+          filename: filename || null, line, column
+        }, null)
+        return undefined
+      } else throw ex
+    }
+  }
+  if (cacheDir === undefined) {
+    const src = parseOrFail()
+    if (src !== undefined) cb(null, src)
+    return
+  }
+  const hash = sha256(`${version}\n${filename}\n${sha256(data)}`)
+  function parseAndStore(): void {
+    const src = parseOrFail()
+    if (src !== undefined) {
+      storeLocations(cacheDir!, 'parsed', hash, src, () =>
+        storeCompiled(cacheDir!, 'parsed', hash, src, () => cb(null, src)))
+    }
+  }
+  findCompiled(cacheDir, 'parsed', hash, (err, cached) => {
+    // The cache is only an optimization; if it can't be read, parse the file
+    if (err != null || cached == null) return parseAndStore()
+    findLocations(cacheDir, 'parsed', hash, cached, found =>
+      found ? cb(null, cached) : parseAndStore())
+  })
+}
+
 export function readModuleFile(
   filename: string,
   cb: ErrCallback<ModuleSource>,
-  history?: string[]
+  options: ReadModuleOptions = {}
 ): void {
+  const {cacheDir, history} = options
   filename = path.normalize(filename)
   if (history) {
     if (history.indexOf(filename) >= 0) {
@@ -164,97 +451,127 @@ export function readModuleFile(
       }
     }, null)
 
-    // Parse
-    let src: Json
-    try {
-      if (_.some(markdownExtensions, e => filename.endsWith(e))) {
-        src = parseMarkdown(data.toString('utf8'), filename)
-      } else {
-        const parser = new Parser(filename)
-        parser.read(data.toString('utf8'))
-        src = parser.getOneResult()
-      }
-    } catch (ex) {
-      if (ex instanceof Parser.ParseError) {
-        const {filename, line, column} = ex.location
-        return cb({
-          err: 'ParseFailed', why: ex.message,
-          filename: filename || null, line, column
-        }, null)
-      } else throw ex
-    }
+    parseModuleSource(filename, data, cacheDir, (err, src) => {
+      if (err) return cb(err, null)
 
-    if (!isObject(src)) return cb({
-      err: 'BadModule', why: 'module is not an object',
-      module: src, filename
-    }, null)
-    
-    // Format imports and exports
-    src.$import = normalizeImports(src.$import || src.$imports)
-    delete src.$imports
-    src.$export = normalizeExports(src.$export || src.$exports)
-    delete src.$exports
-
-    // Validate string properties if this is not an include file
-    const done: (m: ModuleSource) => void =
-      history ? src => cb(null, src) :
-      src => {
-        if (src.$schema !== currentSchema) return cb({
-          err: 'BadModule', why: 'bad or missing $schema property',
-          help: `
-            Jaspr modules must have a $schema property, and that property must
-            be a valid Jaspr module schema location. Currently, the only
-            supported schema is "${currentSchema}".
-          `.trim().replace(/\s+/gm, ' '),
-          schema: src.$schema || null, filename
-        }, null)
-        for (let key of ['$module', '$doc', '$author']) {
-          if (src.hasOwnProperty(key) && typeof src[key] !== 'string') {
-            return cb(<any>{
-              err: 'BadModule', why: `${key} is not a string`,
-              [key]: src[key], filename
+      if (!isObject(src)) return cb({
+        err: 'BadModule', why: 'module is not an object',
+        module: src, filename
+      }, null)
+
+      // Validate the module against the schema if this is not an include file
+      if (history) loadSource(src)
+      else validateModuleSource(src, filename, err =>
+        err ? cb(err, null) : loadSource(<JsonObject>src))
+    })
+
+    function loadSource(src: JsonObject): void {
+      // Format imports and exports
+      src.$import = normalizeImports(src.$import || src.$imports)
+      delete src.$imports
+      src.$export = normalizeExports(src.$export || src.$exports)
+      delete src.$exports
+
+      // Load includes
+      if (src.hasOwnProperty('$include')) {
+        const includes = src.$include, includeHistory = history || [filename]
+        delete src.$include
+        if (isArray(includes)) {
+          const includeNext = (mod: ModuleSource) => {
+            const include = includes.pop()
+            if (include === undefined) return cb(null, mod)
+            else if (typeof include !== 'string') return cb({
+              err: 'BadModule', why: 'include is not a string',
+              include, filename
             }, null)
+            const incFilename =
+              path.isAbsolute(include)
+              ? include : path.join(path.dirname(filename), include)
+            readModuleFile(incFilename, (err, included) => {
+              if (err) return cb(err, null)
+              includeNext(mergeModules(
+                <ModuleSource>mod, <ModuleSource>included,
+                filename, incFilename))
+            }, {cacheDir, history: includeHistory})
           }
-        }
-        if (src.hasOwnProperty('$module') &&
-            !moduleNameRegex.test('' + src.$module)) {
-          return cb(<any>{
-            err: 'BadModule', why: 'bad module name ($module property)',
-            $module: src.$module, filename
-          }, null)
-        }
-        cb(null, src)
-      }
+          includeNext(<ModuleSource>src)
+        } else cb({
+          err: 'BadModule', why: '$include is not an array', $include: includes,
+          filename
+        }, null)
+      } else cb(null, <ModuleSource>src)
+    }
+  })
+}
 
-    // Load includes
-    if (src.hasOwnProperty('$include')) {
-      const includes = src.$include, includeHistory = history || [filename]
-      delete src.$include
-      if (isArray(includes)) {
-        const includeNext = (mod: ModuleSource) => {
-          const include = includes.pop()
-          if (include === undefined) return done(mod)
-          else if (typeof include !== 'string') return cb({
-            err: 'BadModule', why: 'include is not a string',
-            include, filename
-          }, null)
-          const incFilename =
-            path.isAbsolute(include)
-            ? include : path.join(path.dirname(filename), include)
-          readModuleFile(incFilename, (err, included) => {
-            if (err) return cb(err, null)
-            includeNext(mergeModules(
-              <ModuleSource>mod, <ModuleSource>included,
-              filename, incFilename))
-          }, includeHistory)
-        }
-        includeNext(<ModuleSource>src)
-      } else cb({
-        err: 'BadModule', why: '$include is not an array', $include: includes,
-        filename
-      }, null)
-    } else done(<ModuleSource>src)
+/** Path of the JSON schema that module files are validated against */
+const schemaFilename = path.resolve(__dirname, '..', '..', 'schema.jaspr')
+let moduleSchema: Promise<Json> | null = null
+
+/** Reads and parses the module schema, only once. */
+function readModuleSchema(): Promise<Json> {
+  if (moduleSchema == null) {
+    moduleSchema = new Promise<Json>((resolve, reject) =>
+      fs.readFile(schemaFilename, (err, data) => {
+        if (err != null) return reject({
+          err: 'ReadFailed', why: 'failed to read module schema',
+          filename: schemaFilename
+        })
+        parseModuleSource(schemaFilename, data, undefined, (err, schema) =>
+          err ? reject(err) : resolve(<Json>schema))
+      }))
+  }
+  return moduleSchema
+}
+
+/**
+ * Validates the parsed module source `src` against the module schema
+ * (`schema.jaspr`), then calls `cb` with a `BadModule` error if it does not
+ * match, or null if it does.
+ */
+function validateModuleSource(
+  src: JsonObject,
+  filename: string,
+  cb: (err: JasprError | null) => void
+): void {
+  if (src.$schema !== currentSchema) return cb({
+    err: 'BadModule', why: 'bad or missing $schema property',
+    help: `
+      Jaspr modules must have a $schema property, and that property must
+      be a valid Jaspr module schema location. Currently, the only
+      supported schema is "${currentSchema}".
+    `.trim().replace(/\s+/gm, ' '),
+    schema: src.$schema || null, filename
   })
+  // cb is called outside of the validation, so that it is called exactly
+  // once, even if validation throws
+  readModuleSchema()
+    .then(schema => schemaError(src, schema, filename))
+    .catch((err: JasprError) => err)
+    .then(cb)
+}
+
+/**
+ * Returns a `BadModule` error if the parsed module source `src` does not match
+ * the module schema `schema`, or null if it does.
+ */
+function schemaError(
+  src: JsonObject,
+  schema: Json,
+  filename: string
+): JasprError | null {
+  const errors = schemaErrors(schema, src)
+  if (errors.length > 0) return {
+    err: 'BadModule', why: 'module does not match schema', errors, filename
+  }
+  if (src.hasOwnProperty('$module') &&
+      !moduleNameRegex.test('' + src.$module)) {
+    return {
+      err: 'BadModule', why: 'bad module name ($module property)',
+      $module: src.$module, filename
+    }
+  }
+  return null
 }
 
 function mergeModules(
@@ -282,17 +599,18 @@ function mergeModules(
           (l: Import, r: Import, name: string): Import => {
             if (l === undefined) return r
             if (r === undefined) return l
-            if (l.from !== r.from || l.via !== r.via || l.module !== r.module) {
+            if (!_.isEqual(_.omit(l, 'names', 'patterns'),
+                           _.omit(r, 'names', 'patterns'))) {
               throw {
                 err: 'BadModule', why: 'include failed: duplicate import',
                 includer: lFilename, included: rFilename, name,
                 'includer-import': l, 'included-import': r
               }
             }
-            return {
-              from: l.from, via: l.via, module: l.module, version: null,
-              names: mergeNames(l.names, r.names, 'imported value')
-            }
+            return Object.assign({}, l, {
+              names: mergeNames(l.names, r.names, 'imported value'),
+              patterns: _.union(l.patterns, r.patterns)
+            })
           })
       case '$export':
         return mergeNames(l, r, 'export')
@@ -307,43 +625,427 @@ function mergeModules(
   })
 }
 
-function loadImport(
+/**
+ * Options for {@link evalModule}. The same options object is passed down to
+ * every module loaded by an import, so caches are shared between the importing
+ * module and all of its dependencies.
+ */
+export interface EvalModuleOptions {
+  /** Filename of the module; relative `file` imports are resolved from it */
+  filename: string
+  /** Base scope that the module's imports are merged into */
+  scope?: Scope
+  /** If true, evaluate the module's `$main` expression */
+  runMain?: boolean
+  /** Modules that can be imported with `via: local`, by module name */
+  localModules?: Map<string, Promise<Module>>
+  /** Directories searched for `via: local` imports that are not already in
+   *  `localModules` */
+  searchPath?: string[]
+  /** Modules loaded from files, by normalized absolute path or URL */
+  fileModules?: Map<string, Promise<Module>>
+  /** Directory in which downloaded modules are cached; defaults to
+   *  {@link defaultCacheDir} */
+  cacheDir?: string
+  /** Path of the lockfile that records downloaded modules; defaults to
+   *  `jaspr.lock` in the directory of the first module loaded */
+  lockfile?: string
+  /** Called with non-fatal problems found while loading modules; by default,
+   *  warnings are printed to stderr */
+  onWarning?: (warning: JasprObject) => void
+  /** Absolute paths (or URLs) of the modules currently being loaded, used to
+   *  detect import cycles */
+  history?: string[]
+  /** The files imported by each module file loaded so far. Because imports are
+   *  loaded concurrently, a module may already be loading when another module
+   *  imports it; this graph is used to detect cycles through such modules. */
+  importGraph?: Map<string, Set<string>>
+  /** If true, parsed and macroexpanded modules are stored in `cacheDir`, and
+   *  later loads of the same modules skip parsing and macro expansion */
+  precompile?: boolean
+  /** Identifies the modules that `scope` was created from (usually the
+   *  `$hash`es of those modules, hashed together). Modules are only
+   *  precompiled if there is no `scope`, or if `scopeHash` is present. */
+  scopeHash?: string
+  /** If true, `$main` is macroexpanded and checked for undefined names even if
+   *  it is not run (see `runMain`) */
+  checkMain?: boolean
+}
+
+function printWarning(warning: JasprObject): void {
+  console.warn(chalk.yellowBright('⚠ Warning: ') + prettyPrint(warning))
+}
+
+function importLoaded(
+  loaded: Promise<Module>,
   alias: string,
-  {from, via, module, version, names} : Import,
-  filename: string,
-  localModules = new Map<string, Promise<Module>>()
-): Promise<Scope> {
-  if (!moduleNameRegex.test(alias)) return Promise.reject({
-    err: 'BadModule', why: 'illegal import alias; contains special characters',
-    alias, filename
-  })
-  if (via !== 'local') return Promise.reject({
-    err: 'NotImplemented', why: `import loader ${via} is not yet implemented`,
-    filename
-  })
-  const imported = localModules.get(from)
-  if (imported) return imported.then(mod => {
+  imp: Import
+): Promise<[Module, Scope]> {
+  return loaded.then((mod): [Module, Scope] => {
     if (mod.$module == null) throw {
       err: 'BadModule', why: 'cannot import script module', module: alias,
       help: 'A module without a $module key is a script module, and cannot be imported.'
     }
-    return importModule(mod, alias, names === true ? undefined : (names || {}))
+    return [mod, importModule(mod, alias, resolveImportNames(mod, alias, imp))]
+  })
+}
+
+/**
+ * Finds a chain of imports from the module file `from` to `to` in
+ * `importGraph`, or returns null if there is none.
+ */
+function importPath(
+  importGraph: Map<string, Set<string>>,
+  from: string,
+  to: string
+): string[] | null {
+  const previous = new Map<string, string | null>([[from, null]])
+  const queue = [from]
+  for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+    if (next === to) {
+      const out: string[] = []
+      for (let f: string | null = to; f != null; f = previous.get(f) as string | null) {
+        out.unshift(f)
+      }
+      return out
+    }
+    for (let dep of importGraph.get(next) || []) {
+      if (!previous.has(dep)) {
+        previous.set(dep, next)
+        queue.push(dep)
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Loads the module identified by `filename`, which is either a file path or
+ * (for remote modules) a URL. Modules are cached by this name, and import
+ * cycles are detected using it.
+ *
+ * @param env The environment in which to evaluate the module.
+ * @param filename The normalized path or URL of the module.
+ * @param options Options of the importing module.
+ * @param locate Finds the local file that contains the module's source; by
+ *   default, this is `filename` itself.
+ */
+function loadPath(
+  env: Env,
+  filename: string,
+  options: EvalModuleOptions,
+  locate: () => Promise<string> = () => Promise.resolve(filename)
+): Promise<Module> {
+  const history = options.history || [path.resolve(options.filename)]
+  const fileModules =
+    options.fileModules || (options.fileModules = new Map())
+  const importGraph =
+    options.importGraph || (options.importGraph = new Map())
+  const importer = history[history.length - 1]
+  const imported = importGraph.get(importer) || new Set<string>()
+  importGraph.set(importer, imported.add(filename))
+  const cycle = importPath(importGraph, filename, importer)
+  if (cycle) return Promise.reject({
+    err: 'BadModule', why: 'circular import',
+    cycle: [...cycle, filename],
+    filename: options.filename
   })
-  else return Promise.reject({
-    err: 'BadModule', why: 'local import not found', importedModule: from,
+  const cached = fileModules.get(filename)
+  if (cached) return cached
+  const promise = locate().then(located =>
+    new Promise<ModuleSource>((resolve, reject) =>
+      readModuleFile(located, (err, modsrc) => {
+        if (err || modsrc == null) reject(err)
+        else resolve(modsrc)
+      }, {cacheDir: options.precompile ? precompileDir(options) : undefined}))
+  ).then(modsrc => evalModule(env, modsrc, Object.assign({}, options, {
+    filename, runMain: false, fileModules, history: [...history, filename]
+  })))
+  fileModules.set(filename, promise)
+  return promise
+}
+
+function loadFile(
+  env: Env,
+  from: string,
+  options: EvalModuleOptions
+): Promise<Module> {
+  // Relative imports in a module downloaded over HTTP are also downloaded
+  if (isHttpUrl(options.filename) && !path.isAbsolute(from)) {
+    return loadRemote(env, url.resolve(options.filename, from), options)
+  }
+  return loadPath(env, path.resolve(path.dirname(options.filename), from), options)
+}
+
+function lockfilePath(options: EvalModuleOptions): string {
+  if (options.lockfile) return options.lockfile
+  const root = (options.history || [options.filename])[0]
+  return path.resolve(isHttpUrl(root) ? '.' : path.dirname(root), lockfileName)
+}
+
+function loadRemote(
+  env: Env,
+  from: string,
+  options: EvalModuleOptions
+): Promise<Module> {
+  return loadPath(env, from, options, () => new Promise((resolve, reject) =>
+    loadHttp(from, {
+      cacheDir: options.cacheDir || defaultCacheDir(),
+      lockfile: lockfilePath(options)
+    }, (err, cached) => err || cached == null ? reject(err) : resolve(cached))))
+}
+
+/**
+ * Returns the module search path from the `JASPR_PATH` environment variable.
+ * Like `PATH`, it is a list of directories separated by `path.delimiter`.
+ */
+export function envSearchPath(): string[] {
+  return (process.env.JASPR_PATH || '').split(path.delimiter).filter(p => p)
+}
+
+export function versionSatisfied(mod: Namespace, version: string | null): boolean {
+  return version == null ||
+    (mod.$version != null && satisfies(mod.$version, version))
+}
+
+function checkVersion(
+  mod: Module,
+  version: string | null,
+  filename: string
+): Module {
+  if (versionSatisfied(mod, version)) return mod
+  throw {
+    err: 'BadModule', why: 'module version does not satisfy import',
+    importedModule: mod.$module, required: version, found: [mod.$version],
     filename
+  }
+}
+
+/**
+ * Lists the files in `searchPath` that may contain `module`, in the order they
+ * should be tried. `foo.bar` may be found at `foo/bar.jaspr` or
+ * `foo/bar.jaspr.md`; a specific version may also be found at
+ * `foo/bar@1.0.jaspr`, and versioned files whose version does not satisfy
+ * `version` are skipped.
+ */
+export function findLocal(
+  module: string,
+  version: string | null,
+  searchPath: string[],
+  cb: (candidates: string[]) => void
+): void {
+  const segments = module.split('.'), base = <string>_.last(segments)
+  const fileRegex = new RegExp(
+    `^${_.escapeRegExp(base)}(?:@(.+?))?[.]jaspr(?:[.]md)?$`)
+  const dirs = searchPath.map(dir =>
+    path.resolve(dir, ...segments.slice(0, -1)))
+  const candidates: string[] = []
+  ;(function next(): void {
+    const dir = dirs.shift()
+    if (dir === undefined) return cb(candidates)
+    fs.readdir(dir, (err, files) => {
+      if (err == null) {
+        const unversioned: string[] = []
+        const versioned: {file: string, version: string}[] = []
+        for (let file of files.sort()) {
+          const match = fileRegex.exec(file)
+          if (!match) continue
+          const [_m, v] = match
+          if (v === undefined) unversioned.push(path.join(dir, file))
+          else if (version == null || satisfies(v, version)) {
+            versioned.push({file: path.join(dir, file), version: v})
+          }
+        }
+        versioned.sort((a, b) => compareVersions(b.version, a.version))
+        candidates.push(...unversioned, ...versioned.map(v => v.file))
+      }
+      next()
+    })
+  })()
+}
+
+function loadLocal(
+  env: Env,
+  from: string,
+  version: string | null,
+  options: EvalModuleOptions
+): Promise<Module> {
+  const {filename, searchPath = []} = options
+  const localModules =
+    options.localModules || (options.localModules = new Map())
+  const found: (string | null)[] = []
+  function accept(mod: Module): Module | null {
+    if (versionSatisfied(mod, version)) return mod
+    found.push(mod.$version)
+    return null
+  }
+  const loaded = localModules.get(from)
+  return (loaded ? loaded.then(accept) : Promise.resolve(null)).then(
+    (mod: Module | null) =>
+    mod || new Promise<string[]>(resolve =>
+      findLocal(from, version, searchPath, resolve)
+    ).then(function next(candidates: string[]): Promise<Module> {
+      const candidate = candidates.shift()
+      if (candidate === undefined) {
+        if (found.length > 0) throw {
+          err: 'BadModule', why: 'no version of module satisfies import',
+          importedModule: from, required: version, found, filename
+        }
+        else throw {
+          err: 'BadModule', why: 'local import not found',
+          importedModule: from, searchPath, filename
+        }
+      }
+      return loadPath(env, candidate, options).then(mod => {
+        if (mod.$module !== from) throw {
+          err: 'BadModule', why: 'module name does not match import',
+          importedModule: from, $module: mod.$module, filename: candidate
+        }
+        if (accept(mod) == null) return next(candidates)
+        if (!localModules.has(from)) localModules.set(from, Promise.resolve(mod))
+        return mod
+      })
+    }))
+}
+
+function loadGitImport(
+  env: Env,
+  {from, module, version, ref, path: modulePath}: Import,
+  options: EvalModuleOptions
+): Promise<Module> {
+  return new Promise<string>((resolve, reject) =>
+    loadGit(from, ref, {
+      cacheDir: options.cacheDir || defaultCacheDir(),
+      lockfile: lockfilePath(options)
+    }, (err, dir) => err || dir == null ? reject(err) : resolve(dir))
+  ).then(dir => modulePath
+    ? path.resolve(dir, modulePath)
+    : new Promise<string>((resolve, reject) =>
+        findLocal(module, version, [dir], ([found]) => found ? resolve(found) : reject({
+          err: 'BadModule', why: 'module not found in git repository',
+          importedModule: module, repo: from, ref,
+          filename: options.filename
+        })))
+  ).then(found => loadPath(env, found, options))
+}
+
+function loadImport(
+  env: Env,
+  alias: string,
+  imp: Import,
+  options: EvalModuleOptions
+): Promise<[Module, Scope]> {
+  const {filename} = options, {from, via, version} = imp
+  if (!moduleNameRegex.test(alias)) return Promise.reject({
+    err: 'BadModule', why: 'illegal import alias; contains special characters',
+    alias, filename
   })
+  switch (via) {
+    case 'local':
+      return importLoaded(loadLocal(env, from, version, options), alias, imp)
+    case 'file':
+      return importLoaded(
+        loadFile(env, from, options).then(mod =>
+          checkVersion(mod, version, filename)),
+        alias, imp)
+    case 'http':
+      return importLoaded(
+        loadRemote(env, from, options).then(mod =>
+          checkVersion(mod, version, filename)),
+        alias, imp)
+    case 'git':
+      return importLoaded(
+        loadGitImport(env, imp, options).then(mod =>
+          checkVersion(mod, version, filename)),
+        alias, imp)
+  }
+}
+
+function precompileDir(options: EvalModuleOptions): string {
+  return options.cacheDir || defaultCacheDir()
+}
+
+/**
+ * Returns the `$hash` of the module with source `module`, which was loaded
+ * with `options` and imports `imports`, or null if any of its dependencies do
+ * not have a hash.
+ */
+function moduleHash(
+  module: ModuleSource,
+  options: EvalModuleOptions,
+  imports: Module[]
+): string | null {
+  if (options.scope && options.scopeHash === undefined) return null
+  const hashes = imports.map(m => m.$hash)
+  if (_.some(hashes, h => h == null)) return null
+  return sha256(
+    [version, JSON.stringify(module), options.scopeHash || '', ...hashes].join('\n'))
+}
+
+/**
+ * Reads the precompiled definitions of the module with hash `hash`. Resolves
+ * to an empty object if there are none yet, or to `undefined` if the module
+ * should not be precompiled.
+ */
+function loadCompiled(
+  options: EvalModuleOptions,
+  hash: string | null
+): Promise<{[name: string]: Jaspr} | undefined> {
+  if (!options.precompile || hash == null) return Promise.resolve(undefined)
+  const dir = precompileDir(options)
+  return new Promise(resolve =>
+    findCompiled(dir, 'compiled', hash, (err, json) => {
+      if (err != null || !isObject(json)) return resolve(Object.create(null))
+      findLocations(dir, 'compiled', hash, json, found =>
+        resolve(found ? <any>json : Object.create(null)))
+    }))
+}
+
+/**
+ * Once every definition in `defs` has been evaluated in `mod`, stores the
+ * reusable macroexpanded definitions in `compiled` as the precompiled
+ * definitions of the module with hash `hash`. Nothing is stored if no new
+ * definitions were expanded.
+ *
+ * @param cached The number of definitions in `compiled` that were read from
+ *   the cache.
+ */
+function storeCompiledDefs(
+  env: Env,
+  mod: Scope,
+  defs: JasprObject,
+  compiled: {[name: string]: Jaspr | Deferred},
+  cached: number,
+  options: EvalModuleOptions,
+  hash: string
+): void {
+  const names = Object.keys(defs).filter(name => !/^(test|doc|type)[.]/.test(name))
+  let pending = names.length + 1
+  const done = () => {
+    if (--pending > 0) return
+    const reusable = _.pickBy(compiled, code => isReusableExpansion(env, code, mod))
+    if (Object.keys(reusable).length <= cached) return
+    const dir = precompileDir(options)
+    storeLocations(dir, 'compiled', hash, <any>reusable, () =>
+      storeCompiled(dir, 'compiled', hash, <any>reusable, err => {
+        if (err) (options.onWarning || printWarning)({
+          warning: 'failed to store precompiled module', hash,
+          filename: options.filename, error: err
+        })
+      }))
+  }
+  for (let name of names) {
+    const lastDot = name.lastIndexOf('.')
+    const ctx = lastDot > -1 ? name.slice(0, lastDot) : 'value'
+    waitFor((<JasprObject>mod[ctx])[name.slice(lastDot + 1)], done)
+  }
+  done()
 }
 
 export function evalModule(
   env: Env,
   module: ModuleSource,
-  options: {
-    filename: string,
-    scope?: Scope,
-    runMain?: boolean,
-    localModules?: Map<string, Promise<Module>>
-  }
+  options: EvalModuleOptions
 ): Promise<Module> {
   const {runMain, filename} = options
   const {$schema, $module, $version, $main, $import, $export, $doc, $author} = module
@@ -352,43 +1054,57 @@ export function evalModule(
     filename
   })
 
-  const imports: [string, Import][] = _.toPairs($import || {})
-  return (function nextImport(scope: Scope): Promise<Module> {
-    const popped = imports.pop()
-    if (popped) {
-      const [alias, imp] = popped
-      return loadImport(alias, imp, filename, options.localModules).then(
-        imported => nextImport(mergeScopes(env, scope, imported)))
-    } else {
-      const defs: JasprObject = _.omit(
-        _.pickBy(module, v => v !== undefined),
-        ...Object.keys(module).filter(x => x.startsWith('$')))
-      const ns = {$module: $module || null, $version: $version || null}
-      const nameError = validateNames(defs, ns)
-      if (nameError != null) return Promise.reject(nameError)
-      const mod = evalDefs(env, scope, [], undefined, defs, ns)
-
-      // TODO: Remove this debug code!
-      // -----------------------------------------------------------------------
-      for (let k in mod.value) {
-        const v = mod.value[k]
-        if (v instanceof Deferred) {
-          const timeout =
-            setTimeout(() => console.warn(`value.${k} has not resolved!`), 2500)
-          v.await(() => clearTimeout(timeout))
-        }
+  // Imports are loaded concurrently, then merged in order
+  const imports: [string, Import][] = _.toPairs($import || {}).reverse()
+  const warn = options.onWarning || printWarning
+  const unqualified = new Map<string, string>()
+  return Promise.all(imports.map(([alias, imp]) =>
+    loadImport(env, alias, imp, options))
+  ).then(loaded => {
+    let scope = options.scope || emptyScope
+    loaded.forEach(([_m, imported], i) => {
+      const [alias] = imports[i]
+      for (let name of Object.keys(imported.qualified)) {
+        if (name.indexOf('.') >= 0) continue
+        const shadowed = unqualified.get(name)
+        if (shadowed !== undefined) warn({
+          warning: 'import shadows another import', name,
+          import: alias, shadowed, filename
+        })
+        unqualified.set(name, alias)
       }
-      for (let k in mod.macro) {
-        const v = mod.macro[k]
-        if (v instanceof Deferred) {
-          const timeout =
-            setTimeout(() => console.warn(`macro.${k} has not resolved!`), 2500)
-          v.await(() => clearTimeout(timeout))
-        }
+      scope = mergeScopes(env, scope, imported)
+    })
+    const defs: JasprObject = _.omit(
+      _.pickBy(module, v => v !== undefined),
+      ...Object.keys(module).filter(x => x.startsWith('$')))
+    const ns = {$module: $module || null, $version: $version || null}
+    const nameError = validateNames(defs, ns)
+    if (nameError != null) return Promise.reject(nameError)
+    const unimported = _.pickBy($export || {}, exported => {
+      const alias = reexportedAlias(exported)
+      return alias != null &&
+        (!has($import || {}, alias) || !has(scope.qualified, exported))
+    })
+    if (!_.isEmpty(unimported)) return Promise.reject({
+      err: 'BadModule', why: 're-exported name is not imported',
+      exports: unimported, filename
+    })
+    const $hash = moduleHash(module, options, loaded.map(([m]) => m))
+    return loadCompiled(options, $hash).then(compiled => {
+      const cached = compiled ? Object.keys(compiled).length : 0
+      // The standard library still has unimplemented (TODO) definitions that
+      // users cannot fix, so its names are not checked
+      const checked = $module !== stdlibModule
+      const mod = evalDefs(env, scope, [], undefined, defs, ns, compiled,
+        checked ? (name, expanded, scope) => checkNames(env, scope,
+          qualify(ns, name.slice(name.lastIndexOf('.') + 1)), expanded, filename)
+        : undefined)
+      if (compiled && $hash != null) {
+        storeCompiledDefs(env, mod, defs, compiled, cached, options, $hash)
       }
-      // -----------------------------------------------------------------------
 
-      return Promise.resolve(Object.assign(mod, {
+      return Object.assign(mod, {
         $schema,
         $module: $module || null,
         $version: $version || null,
@@ -396,30 +1112,140 @@ export function evalModule(
         $author: $author || null,
         $import: $import || Object.create(null),
         $export: $export || Object.create(null),
-        $main: options.runMain && $main !== undefined
-          ? expandAndEval(env, mod, [], undefined, $main)
-          : null
-      }))
+        $main: $main !== undefined && (runMain || options.checkMain)
+          ? evalMain(env, mod, $main, checked, options)
+          : null,
+        $hash
+      })
+    })
+  })
+}
+
+/**
+ * Macroexpands the `$main` expression of a module whose scope is `mod`, checks
+ * it for undefined names if `checked` is true, and, if `options.runMain` is
+ * set, evaluates it.
+ */
+function evalMain(
+  env: Env,
+  mod: Scope,
+  $main: Jaspr,
+  checked: boolean,
+  {runMain, filename}: EvalModuleOptions
+): Jaspr | Deferred {
+  const dynamics = {key: env.nameVar, value: '$main'}
+  const expanded = macroExpand(env, mod, dynamics, $main)
+  if (checked) checkNames(env, mod, '$main', expanded, filename)
+  return runMain
+    ? then(env, expanded, x => evalExpr(env, mod, [], dynamics, x),
+        () => ({action: 'eval', code: $main}))
+    : null
+}
+
+/** Returns the edit distance between `a` and `b`, for "did you mean" hints */
+function editDistance(a: string, b: string): number {
+  let row = _.range(b.length + 1)
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i]
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(
+        row[j] + 1, next[j - 1] + 1,
+        row[j - 1] + (a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1))
     }
-  })(options.scope || emptyScope)
+    row = next
+  }
+  return row[b.length]
+}
+
+/**
+ * Returns the names in `candidates` that are similar to `name`, closest first.
+ */
+function suggestNames(name: string, candidates: string[]): string[] {
+  const maxDistance = Math.max(1, Math.floor(name.length / 3))
+  return _(candidates)
+    .map(c => ({c, d: editDistance(name.toLowerCase(), c.toLowerCase())}))
+    .filter(({c, d}) => d <= maxDistance || c.startsWith(name) || name.startsWith(c))
+    .sortBy('d').map('c').take(3).value()
+}
+
+/**
+ * Reports a diagnostic for each name in the macroexpanded definition `name`
+ * (a qualified name, or `$main`) that is not defined in `scope`, with its
+ * source location and suggestions for similar defined names.
+ */
+function checkNames(
+  env: Env,
+  scope: Scope,
+  name: string,
+  expanded: Jaspr | Deferred,
+  filename: string
+): void {
+  findUndefinedNames(scope, expanded, unbound => {
+    if (unbound.length === 0) return
+    const defined = _.keysIn(scope.value).filter(n => !/[.@]/.test(n))
+    for (let {name: n, at} of unbound) env.reportDiagnostic({
+      level: 'error', why: 'name not defined', fn: null, code: n, name, at,
+      filename, suggestions: suggestNames(n, defined)
+    })
+  })
 }
 
+/**
+ * Creates a `BadModule` error for imported names that `module` does not
+ * export, listing its actual exports and suggestions for each missing name.
+ */
+function unexportedError(
+  module: Module,
+  alias: string | null,
+  missing: string[]
+): JasprError {
+  const exported = Object.keys(module.$export)
+  return <any>{
+    err: 'BadModule',
+    why: missing.length === 1
+      ? 'imported name is not exported by module'
+      : 'imported names are not exported by module',
+    module: module.$module, alias, names: missing,
+    exports: _.sortBy(exported),
+    suggestions: _.fromPairs(missing
+      .map((n): [string, string[]] => [n, suggestNames(n, exported)])
+      .filter(([n, s]) => s.length > 0))
+  }
+}
+
+/**
+ * Creates the scope that an importing module gets when it imports `module`.
+ * Only the names in `module`'s `$export` are included: each is available
+ * fully-qualified, prefixed with `alias` (if not null), and unqualified (if it
+ * is listed in `names`).
+ *
+ * Throws a `BadModule` error listing every name in `names` that `module` does
+ * not export.
+ *
+ * @param module The module to import.
+ * @param alias The prefix for the imported names.
+ * @param names The names to import unqualified, as a map from the name in the
+ *   importing module to the exported name. By default, all exports.
+ */
 export function importModule(
   module: Module,
   alias = module.$module,
   names: {[name: string]: string} =
     _(module.$export).keys().map(k => [k, k]).fromPairs().value()
 ): Scope {
+  const missing =
+    _.uniq(_.values(names)).filter(n => !has(module.$export, n))
+  if (missing.length > 0) throw unexportedError(module, alias, missing)
   function onlyExports<T>(sc: {[name: string]: T}): {[name: string]: T} {
     const out: {[name: string]: T} = Object.create(null)
     _.forIn(module.$export, (exported, as) => {
-      const qualified = qualify(module, exported)
+      const qualified = exportedIdentity(module, as)
       if (has(sc, qualified)) {
+        out[qualified] = sc[qualified]
         out[qualify(module, as)] = sc[qualified]
         if (alias) out[`${alias}.${as}`] = sc[qualified]
       }
     })
-    // TODO: Raise BadModule if a name does not refer to an actual import
     _.forIn(names, (imported, as) => {
       const qualified = qualify(module, imported)
       if (has(out, qualified)) out[as] = out[qualified]
@@ -436,6 +1262,8 @@ export function importModule(
   _.toPairs(names).concat(<any>(
     alias ? _.keys(module.$export).map(k => [`${alias}.${k}`, k]) : [])
   ).forEach(([as, imported]) =>
-    out.qualified[as] = qualify(module, imported))
+    out.qualified[as] = reexportedAlias(module.$export[imported]) != null
+      ? exportedIdentity(module, imported)
+      : qualify(module, imported))
   return out
 }
@@ -0,0 +1,319 @@
+/**
+ * Static dependency graphs of Jaspr modules.
+ *
+ * A module graph is built by reading module sources (without evaluating them)
+ * and following their `$import` and `$include` references. Local and file
+ * imports are followed; HTTP and git imports are recorded, but not downloaded.
+ * The graph can be checked for circular imports, sorted into the order its
+ * modules must be loaded in, and printed as a tree, as a Graphviz DOT graph, or
+ * as JSON.
+ */
+
+import * as path from 'path'
+import * as url from 'url'
+import * as _ from 'lodash'
+import {JsonObject} from './Jaspr'
+import {
+  ModuleSource, ImportSource, readModuleFile, findLocal, versionSatisfied
+} from './Module'
+import {isHttpUrl} from './HttpLoader'
+import {primitiveModule, debugModule} from './ReservedNames'
+
+/** A module (or included file) in a {@link ModuleGraph} */
+export interface DependencyNode {
+  /**
+   * The absolute filename or URL of the module. Builtin modules and local
+   * imports that could not be found are identified by module name.
+   */
+  id: string
+  $module: string | null
+  $version: string | null
+  /**
+   * `loaded` if the module's source was read, `included` if it is only
+   * included by other modules, `remote` for HTTP and git imports (which are
+   * not followed), `builtin` for modules implemented by the interpreter, or
+   * `missing` for local imports that could not be found.
+   */
+  status: 'loaded' | 'included' | 'remote' | 'builtin' | 'missing'
+}
+
+/** A dependency of one module on another */
+export interface DependencyEdge {
+  /** The `id` of the dependent module */
+  from: string
+  /** The `id` of the module it depends on */
+  to: string
+  kind: 'import' | 'include'
+  /** For imports, the import alias; for includes, null */
+  alias: string | null
+  /** For imports, where the module is loaded from; for includes, null */
+  via: ImportSource | null
+}
+
+export class ModuleGraph {
+  readonly roots: string[]
+  readonly nodes = new Map<string, DependencyNode>()
+  readonly edges: DependencyEdge[] = []
+
+  constructor(roots: string[]) {
+    this.roots = roots
+  }
+
+  /** Returns the edges from the module `id` to its dependencies. */
+  dependencies(id: string): DependencyEdge[] {
+    return this.edges.filter(e => e.from === id)
+  }
+
+  /**
+   * Returns every import cycle in the graph, as a list of module ids in import
+   * order. Includes are never circular, because a file that includes itself is
+   * only read once.
+   */
+  cycles(): string[][] {
+    // Tarjan's strongly-connected components algorithm
+    const index = new Map<string, number>(), lowlink = new Map<string, number>()
+    const stack: string[] = [], onStack = new Set<string>()
+    const cycles: string[][] = []
+    const visit = (id: string) => {
+      index.set(id, index.size)
+      lowlink.set(id, index.get(id) as number)
+      stack.push(id)
+      onStack.add(id)
+      for (let {to, kind} of this.dependencies(id)) {
+        if (kind !== 'import') continue
+        if (!index.has(to)) {
+          visit(to)
+          lowlink.set(id, Math.min(lowlink.get(id) as number, lowlink.get(to) as number))
+        } else if (onStack.has(to)) {
+          lowlink.set(id, Math.min(lowlink.get(id) as number, index.get(to) as number))
+        }
+      }
+      if (lowlink.get(id) === index.get(id)) {
+        const component: string[] = []
+        let top: string
+        do {
+          top = stack.pop() as string
+          onStack.delete(top)
+          component.unshift(top)
+        } while (top !== id)
+        if (component.length > 1 || this.edges.some(e =>
+              e.kind === 'import' && e.from === id && e.to === id)) {
+          cycles.push(component)
+        }
+      }
+    }
+    for (let id of this.nodes.keys()) if (!index.has(id)) visit(id)
+    return cycles
+  }
+
+  /**
+   * Returns the ids of every module in the graph, sorted so that each module
+   * comes after all of its dependencies. Throws a `BadModule` error if the
+   * graph contains an import cycle.
+   */
+  loadOrder(): string[] {
+    const [cycle] = this.cycles()
+    if (cycle) throw {
+      err: 'BadModule', why: 'circular import', cycle: [...cycle, cycle[0]]
+    }
+    const order: string[] = [], visited = new Set<string>()
+    const visit = (id: string) => {
+      if (visited.has(id)) return
+      visited.add(id)
+      for (let {to} of this.dependencies(id)) visit(to)
+      order.push(id)
+    }
+    for (let id of this.roots) visit(id)
+    for (let id of this.nodes.keys()) visit(id)
+    return order
+  }
+
+  /**
+   * Prints the graph as a tree, starting from each root. Modules that appear
+   * more than once are only expanded the first time.
+   */
+  toTree(relativeTo = process.cwd()): string {
+    const lines: string[] = [], expanded = new Set<string>()
+    const describe = (id: string) => {
+      const node = this.nodes.get(id) as DependencyNode
+      const name = isHttpUrl(id) || !path.isAbsolute(id)
+        ? id : path.relative(relativeTo, id)
+      const mod = node.$module
+        ? ` (${node.$module}${node.$version ? '@' + node.$version : ''})` : ''
+      const status = node.status === 'loaded' ? '' : ` [${node.status}]`
+      return name + mod + status
+    }
+    const visit = (id: string, ancestors: string[], prefix: string) => {
+      const deps = this.dependencies(id)
+      deps.forEach(({to, kind, alias}, i) => {
+        const last = i === deps.length - 1
+        const label = kind === 'include' ? 'include' : alias
+        let line = `${prefix}${last ? '└─ ' : '├─ '}${label}: ${describe(to)}`
+        if (ancestors.indexOf(to) >= 0) lines.push(line + ' (circular)')
+        else if (expanded.has(to) && this.dependencies(to).length > 0) {
+          lines.push(line + ' (see above)')
+        } else {
+          lines.push(line)
+          expanded.add(to)
+          visit(to, [...ancestors, to], prefix + (last ? '   ' : '│  '))
+        }
+      })
+    }
+    for (let id of this.roots) {
+      lines.push(describe(id))
+      expanded.add(id)
+      visit(id, [id], '')
+    }
+    return lines.join('\n')
+  }
+
+  /** Prints the graph in Graphviz DOT format. */
+  toDot(): string {
+    const quote = (s: string) => JSON.stringify(s)
+    const lines = ['digraph jaspr {']
+    for (let node of this.nodes.values()) {
+      const label = node.$module
+        ? `${node.$module}${node.$version ? '@' + node.$version : ''}`
+        : path.basename(node.id)
+      const style = node.status === 'loaded' ? '' : ', style=dashed'
+      lines.push(`  ${quote(node.id)} [label=${quote(label)}${style}];`)
+    }
+    for (let {from, to, kind, alias} of this.edges) {
+      lines.push(`  ${quote(from)} -> ${quote(to)} ${kind === 'include'
+        ? '[style=dashed]' : `[label=${quote(alias || '')}]`};`)
+    }
+    lines.push('}')
+    return lines.join('\n')
+  }
+
+  toJSON(): JsonObject {
+    const cycles = this.cycles()
+    return {
+      roots: this.roots,
+      nodes: <any[]>Array.from(this.nodes.values()),
+      edges: <any[]>this.edges,
+      cycles,
+      order: cycles.length > 0 ? null : this.loadOrder()
+    }
+  }
+}
+
+function readSource(filename: string): Promise<ModuleSource> {
+  return new Promise<ModuleSource>((resolve, reject) =>
+    readModuleFile(filename, (err, src) =>
+      err || src == null ? reject(err) : resolve(src)))
+}
+
+/**
+ * Reads the module files `filenames` and every module they depend on, and
+ * returns their dependency graph. Local imports are resolved to the modules in
+ * `filenames` first, then to modules in `searchPath`.
+ */
+export function readModuleGraph(
+  filenames: string[],
+  {searchPath = []}: {searchPath?: string[]} = {}
+): Promise<ModuleGraph> {
+  const roots = filenames.map(f => path.resolve(f))
+  const graph = new ModuleGraph(roots)
+  const sources = new Map<string, Promise<ModuleSource>>()
+  const visited = new Set<string>()
+  const localModules = new Map<string, string>()
+
+  function read(filename: string): Promise<ModuleSource> {
+    let src = sources.get(filename)
+    if (!src) {
+      // Passing a history list to readModuleFile collects the names of every
+      // file it includes, starting with the module file itself
+      const included: string[] = []
+      src = new Promise<ModuleSource>((resolve, reject) =>
+        readModuleFile(filename, (err, src) => {
+          if (err || src == null) return reject(err)
+          graph.nodes.set(filename, {
+            id: filename, $module: src.$module || null,
+            $version: src.$version || null, status: 'loaded'
+          })
+          for (let inc of included.slice(1)) {
+            if (!graph.nodes.has(inc)) graph.nodes.set(inc, {
+              id: inc, $module: null, $version: null, status: 'included'
+            })
+            graph.edges.push({
+              from: filename, to: inc, kind: 'include', alias: null, via: null
+            })
+          }
+          resolve(src)
+        }, {history: included}))
+      sources.set(filename, src)
+    }
+    return src
+  }
+
+  function external(id: string, status: DependencyNode['status']): string {
+    if (!graph.nodes.has(id)) graph.nodes.set(id, {
+      id, $module: status === 'remote' ? null : id, $version: null, status
+    })
+    visited.add(id)
+    return id
+  }
+
+  function resolveLocal(module: string, version: string | null): Promise<string> {
+    if (module === primitiveModule || module === debugModule) {
+      return Promise.resolve(external(module, 'builtin'))
+    }
+    const root = localModules.get(module)
+    if (root) return Promise.resolve(root)
+    return new Promise<string[]>(resolve =>
+      findLocal(module, version, searchPath, resolve)
+    ).then(function next(candidates: string[]): Promise<string> {
+      const candidate = candidates.shift()
+      if (candidate === undefined) return Promise.resolve(external(module, 'missing'))
+      return readSource(candidate).then(src =>
+        src.$module === module && versionSatisfied(
+          {$module: src.$module, $version: src.$version || null}, version)
+          ? candidate : next(candidates))
+    })
+  }
+
+  function visit(filename: string): Promise<void> {
+    if (visited.has(filename)) return Promise.resolve()
+    visited.add(filename)
+    return read(filename).then(src =>
+      Promise.all(_.toPairs(src.$import || {}).map(([alias, imp]) => {
+        let target: Promise<string>
+        switch (imp.via) {
+          case 'local':
+            target = resolveLocal(imp.from, imp.version)
+              .then(id => visit(id).then(() => id))
+            break
+          case 'file':
+            if (isHttpUrl(filename) && !path.isAbsolute(imp.from)) {
+              target = Promise.resolve(
+                external(url.resolve(filename, imp.from), 'remote'))
+            } else {
+              const resolved = path.resolve(path.dirname(filename), imp.from)
+              target = visit(resolved).then(() => resolved)
+            }
+            break
+          default:
+            target = Promise.resolve(external(imp.from, 'remote'))
+        }
+        return target.then(to => {
+          graph.edges.push({from: filename, to, kind: 'import', alias, via: imp.via})
+        })
+      })).then(() => undefined))
+  }
+
+  return Promise.all(roots.map(read)).then(srcs => {
+    srcs.forEach((src, i) => {
+      if (src.$module && !localModules.has(src.$module)) {
+        localModules.set(src.$module, roots[i])
+      }
+    })
+    return Promise.all(roots.map(visit))
+  }).then(() => {
+    graph.edges.sort((a, b) =>
+      a.from < b.from ? -1 : a.from > b.from ? 1 :
+      a.kind !== b.kind ? (a.kind === 'include' ? 1 : -1) :
+      (a.alias || a.to) < (b.alias || b.to) ? -1 : 1)
+    return graph
+  })
+}
@@ -9,6 +9,10 @@ export type AsyncFn = (this: Env, args: Jaspr[], cb: ErrCallback<Jaspr>) => void
 
 export abstract class NativeFn {
   readonly source: string[]
+  /** True if calling this function has side effects, or may return different
+   *  results for the same arguments. Macro expansions that call impure
+   *  functions are never precompiled. */
+  impure = false
   constructor(source: string[]) {this.source = source}
   abstract call(env: Env, args: Jaspr[], cb: ErrCallback<Jaspr>): void
   abstract toClosure(env: Env): JasprObject
@@ -14,6 +14,7 @@
 import * as _ from 'lodash'
 import * as XRegExp from 'xregexp'
 import {Json} from './Jaspr'
+import {setLocation} from './SourceLocation'
 import {
   syntaxQuote, unquote, unquoteSplicing, assertEqualsQualified
 } from './ReservedNames'
@@ -207,6 +208,18 @@ export const legalName =
 const unquotedString = 
   XRegExp('^(' + charClass(reservedChars, true) + '+)')
 
+/**
+ * Records the location of a parsed array or object (see `SourceLocation.ts`),
+ * then returns it.
+ */
+function located<T extends object>(
+  expr: T,
+  {filename, line, column}: Parser.Location
+): T {
+  setLocation(expr, {filename: filename || null, line, column})
+  return expr
+}
+
 /**
  * The Jaspr parser. Use by passing individual chunks of source via `read`, then
  * retrieving the parsed result via `getOneResult` or `getManyResults`.
@@ -214,13 +227,13 @@ const unquotedString =
 class Parser {
   filename?: string
   testComments: boolean
-  line: number = 0
-  column: number = 0
+  line: number = 1
+  column: number = 1
   stack: Parser.Frame[] = []
   frame: Parser.Frame = {
     type: T.Root,
     contents: [],
-    location: {line: 0, column: 0}
+    location: {line: 1, column: 1}
   }
 
   constructor(filename?: string, testComments = false) {
@@ -269,21 +282,21 @@ class Parser {
         switch (this.frame.type) {
         case T.Paren:
         case T.Bracket:
-          expr = this.frame.contents
+          expr = located(this.frame.contents, this.frame.location)
           break
         case T.Brace:
-          expr = _.fromPairs(this.frame.contents.map(v => {
+          expr = located(_.fromPairs(this.frame.contents.map(v => {
             if (Array.isArray(v)) return v
             else if (typeof v === 'string') return [v, v]
             else throw new Parser.ParseError('bad object', this.frame.location)
-          }))
+          })), this.frame.location)
           break
         case T.Quote:
           for (let i = this.stack.length - 1; i > 0; i--) {
             const {type} = this.stack[i]
             if (type === T.Quote || type === T.Bracket) break
             else if (type === T.Paren) {
-              expr = ['', this.frame.contents[0]]
+              expr = located(['', this.frame.contents[0]], this.frame.location)
               break
             }
           }
@@ -611,7 +624,7 @@ class Parser {
         switch (this.frame.type) {
         case T.Prefix:
           this.frame.contents.push(expr)
-          expr = this.frame.contents
+          expr = located(this.frame.contents, this.frame.location)
           const popped = this.stack.pop()
           if (popped) this.frame = popped
           else throw new Error("stack underflow")
@@ -651,11 +664,11 @@ class Parser {
     } else if (this.frame.contents.length === 0) {
       throw new Parser.ParseError('no top-level expression found', this)
     } else if (this.frame.type === T.Brace) {
-      return _.fromPairs(this.frame.contents.map(v => {
+      return located(_.fromPairs(this.frame.contents.map(v => {
         if (Array.isArray(v)) return v
         else if (typeof v === 'string') return [v, v]
         else throw new Parser.ParseError('bad object', this.frame.location)
-      }))
+      })), {filename: this.filename, line: 1, column: 1})
     } else if (this.frame.contents.length > 1) {
       throw new Parser.ParseError('more than 1 top-level expression', this)
     }
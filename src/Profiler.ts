@@ -0,0 +1,325 @@
+/**
+ * A sampling profiler for Jaspr code.
+ *
+ * A {@link Profiler} is attached to an environment as its
+ * {@link Env.profiler}. It is notified before each expression is evaluated,
+ * and, at most once per {@link Profiler.interval}, records a sample: the time
+ * since the last sample, attributed to the stack of functions that is running.
+ * Functions are closures, named after the definitions that created them and
+ * located at their bodies' source locations; code outside of any closure is
+ * attributed to the top-level definition being evaluated (the outermost value
+ * of `env.nameVar`).
+ *
+ * Time spent macroexpanding is recorded under a separate `(macroexpand)` node,
+ * and time between expressions that is too long to be interpreter overhead
+ * (native functions, I/O, or waiting for the event loop) under `(program)`.
+ * The profiler also counts closure calls and fiber creations.
+ *
+ * Profiles can be printed as a report, or saved in the `.cpuprofile` format
+ * used by Chrome's developer tools.
+ */
+
+import * as path from 'path'
+import {Jaspr, JasprArray, Json, JsonObject} from './Jaspr'
+import {
+  Env, Frame, Action, DynamicMap, ProfileHook, ProfilePhase
+} from './Interpreter'
+import {SourceLocation, locationOf} from './SourceLocation'
+
+/** A function in the profiled call tree */
+export interface ProfileNode {
+  id: number
+  name: string
+  location: SourceLocation | null
+  children: Map<string, ProfileNode>
+  /** Microseconds of samples attributed to this function itself */
+  selfTime: number
+  hitCount: number
+}
+
+/** Totals for one function, summed over every node in the call tree */
+export interface ProfileEntry {
+  name: string
+  location: SourceLocation | null
+  /** Microseconds spent in this function, not including its callees */
+  selfTime: number
+  /** Microseconds spent in this function, including its callees */
+  totalTime: number
+  /** Number of times this function was called, if it is a closure */
+  calls: number
+}
+
+/**
+ * Gaps (in microseconds) between two expressions shorter than this are
+ * interpreter overhead, not time spent outside of Jaspr code.
+ */
+const minIdleTime = 100
+
+/** Returns the current time in microseconds, as a fraction. */
+function now(): number {
+  const [s, ns] = process.hrtime()
+  return s * 1e6 + ns / 1e3
+}
+
+function nodeKey(name: string, location: SourceLocation | null): string {
+  return location
+    ? `${name}\0${location.filename}:${location.line}:${location.column}`
+    : name
+}
+
+export default class Profiler implements ProfileHook {
+  readonly root: ProfileNode
+  /** Number of fibers created, by action */
+  readonly fibers = new Map<Action, number>()
+  /** Microseconds of samples in each phase, and outside of Jaspr code */
+  readonly phaseTime = {eval: 0, macroexpand: 0, program: 0}
+  /** The closure called with each arguments array */
+  private readonly closures =
+    new WeakMap<JasprArray, {name: string, location: SourceLocation | null}>()
+  /** The arguments of the closure call that each `let` body is part of */
+  private readonly letCalls = new WeakMap<JasprArray, JasprArray>()
+  private readonly calls = new Map<string, number>()
+  private readonly samples: number[] = []
+  private readonly timeDeltas: number[] = []
+  private readonly startTime: number
+  private endTime: number | null = null
+  private lastSample: number
+  private lastSeen: number
+  private nextId = 1
+
+  /**
+   * @param interval The minimum time between samples, in microseconds.
+   */
+  constructor(readonly interval = 1000) {
+    this.root = this.node('(root)', null)
+    this.startTime = this.lastSample = this.lastSeen = now()
+  }
+
+  sample(
+    env: Env,
+    phase: ProfilePhase,
+    frame: Frame | undefined,
+    dynamics: DynamicMap | undefined
+  ): void {
+    const t = now(), gap = t - this.lastSeen
+    this.lastSeen = t
+    if (this.endTime !== null || t - this.lastSample < this.interval) return
+    if (gap > Math.max(this.interval, minIdleTime)) {
+      this.record(this.child(this.root, '(program)', null), 'program', t)
+    } else {
+      this.record(this.stack(env, phase, frame, dynamics), phase, t)
+    }
+  }
+
+  call(code: Jaspr, args: JasprArray, name: string | undefined): void {
+    const fn = {name: name || '(anonymous)', location: locationOf(code)}
+    this.closures.set(args, fn)
+    const key = nodeKey(fn.name, fn.location)
+    this.calls.set(key, (this.calls.get(key) || 0) + 1)
+  }
+
+  enterLet(outerArgs: JasprArray, args: JasprArray): void {
+    this.letCalls.set(args, this.letCalls.get(outerArgs) || outerArgs)
+  }
+
+  spawn(action: Action): void {
+    this.fibers.set(action, (this.fibers.get(action) || 0) + 1)
+  }
+
+  /**
+   * Stops profiling, attributing the time since the last sample to code
+   * outside of Jaspr. Samples are not recorded after the profiler stops.
+   */
+  stop(): void {
+    if (this.endTime !== null) return
+    const t = now()
+    this.record(this.child(this.root, '(program)', null), 'program', t)
+    this.endTime = t
+  }
+
+  /** Returns the total time of every sample, in microseconds. */
+  get totalTime(): number {
+    return this.phaseTime.eval + this.phaseTime.macroexpand + this.phaseTime.program
+  }
+
+  /**
+   * Returns the totals for each function (each distinct name and location),
+   * sorted by self time, from most to least.
+   */
+  entries(): ProfileEntry[] {
+    const entries = new Map<string, ProfileEntry>()
+    const walk = (node: ProfileNode, path: Set<string>): number => {
+      const key = nodeKey(node.name, node.location)
+      let entry = entries.get(key)
+      if (!entry) {
+        entry = {
+          name: node.name, location: node.location, selfTime: 0, totalTime: 0,
+          calls: this.calls.get(key) || 0
+        }
+        entries.set(key, entry)
+      }
+      entry.selfTime += node.selfTime
+      let total = node.selfTime
+      const inner = new Set(path).add(key)
+      for (let child of node.children.values()) total += walk(child, inner)
+      // Recursive calls are only counted once in the total time
+      if (!path.has(key)) entry.totalTime += total
+      return total
+    }
+    for (let child of this.root.children.values()) walk(child, new Set())
+    return Array.from(entries.values()).sort((a, b) => b.selfTime - a.selfTime)
+  }
+
+  /**
+   * Returns a report of the profile as text: the time spent in each phase,
+   * the `limit` functions with the most self time, and the number of fibers
+   * created.
+   */
+  report(limit = 30): string {
+    const ms = (us: number) => (us / 1000).toFixed(1)
+    const {eval: evaluating, macroexpand, program} = this.phaseTime
+    const total = this.totalTime
+    const percent = (us: number) =>
+      (total > 0 ? us / total * 100 : 0).toFixed(1) + '%'
+    const lines = [
+      `Profile: ${ms(total)} ms total, ${ms(evaluating)} ms evaluating, ` +
+        `${ms(macroexpand)} ms macroexpanding, ${ms(program)} ms outside Jaspr code`,
+      '',
+      ['Self ms', 'Self %', 'Total ms', 'Calls'].map(h => pad(h, 9)).join('') +
+        '  Function'
+    ]
+    for (let e of this.entries().slice(0, limit)) {
+      const at = e.location ? ` (${locationString(e.location)})` : ''
+      lines.push(
+        [ms(e.selfTime), percent(e.selfTime), ms(e.totalTime), '' + e.calls]
+          .map(c => pad(c, 9)).join('') + `  ${e.name}${at}`)
+    }
+    const fibers = Array.from(this.fibers).sort((a, b) => b[1] - a[1])
+    const fiberCount = fibers.reduce((n, [, count]) => n + count, 0)
+    lines.push('', `Fibers created: ${fiberCount}` + (fibers.length
+      ? ` (${fibers.map(([action, count]) => `${action}: ${count}`).join(', ')})`
+      : ''))
+    return lines.join('\n')
+  }
+
+  /**
+   * Returns the profile in the `.cpuprofile` format used by Chrome's developer
+   * tools. Times are in microseconds, and line and column numbers start at 0.
+   */
+  toCpuProfile(): JsonObject {
+    const nodes: Json[] = [], scripts = new Map<string, string>()
+    const walk = (node: ProfileNode) => {
+      const {filename = null, line = 0, column = 0} = node.location || {}
+      let scriptId = '0'
+      if (filename != null) {
+        scriptId = scripts.get(filename) || '' + (scripts.size + 1)
+        scripts.set(filename, scriptId)
+      }
+      const children = Array.from(node.children.values())
+      nodes.push({
+        id: node.id,
+        callFrame: {
+          functionName: node.name, scriptId, url: filename || '',
+          lineNumber: line - 1, columnNumber: column - 1
+        },
+        hitCount: node.hitCount,
+        children: children.map(c => c.id)
+      })
+      children.forEach(walk)
+    }
+    walk(this.root)
+    return {
+      nodes,
+      startTime: Math.round(this.startTime),
+      endTime: Math.round(this.endTime !== null ? this.endTime : this.lastSample),
+      samples: this.samples,
+      timeDeltas: this.timeDeltas
+    }
+  }
+
+  /** Records a sample at time `t`, attributing the time since the last one. */
+  private record(node: ProfileNode, phase: ProfilePhase | 'program', t: number) {
+    const time = t - this.lastSample
+    node.selfTime += time
+    node.hitCount++
+    this.phaseTime[phase] += time
+    this.samples.push(node.id)
+    this.timeDeltas.push(Math.round(t) - Math.round(this.lastSample))
+    this.lastSample = t
+  }
+
+  /**
+   * Returns the node for the functions that are running at `frame`. Closure
+   * bodies may not have source locations, so frames are matched to the
+   * closure calls they are part of by their `$args` (or, inside of a `let`,
+   * the `$args` of the code around the `let`).
+   */
+  private stack(
+    env: Env,
+    phase: ProfilePhase,
+    frame: Frame | undefined,
+    dynamics: DynamicMap | undefined
+  ): ProfileNode {
+    const frames: Frame[] = []
+    for (let f = frame; f; f = f.parent) frames.push(f)
+    frames.reverse()
+    let node = phase === 'macroexpand'
+      ? this.child(this.root, '(macroexpand)', null) : this.root
+    node = this.child(node, topLevelName(env, dynamics) || '(anonymous)',
+      frames.length > 0 ? locationOf(frames[0].code) : null)
+    let $args: JasprArray | null = null
+    for (let frame of frames) {
+      const callArgs = this.letCalls.get(frame.$args) || frame.$args
+      if (callArgs === $args) continue
+      $args = callArgs
+      const fn = this.closures.get($args)
+      if (fn) node = this.child(node, fn.name, fn.location)
+    }
+    return node
+  }
+
+  private child(
+    parent: ProfileNode,
+    name: string,
+    location: SourceLocation | null
+  ): ProfileNode {
+    const key = nodeKey(name, location)
+    let node = parent.children.get(key)
+    if (!node) {
+      node = this.node(name, location)
+      parent.children.set(key, node)
+    }
+    return node
+  }
+
+  private node(name: string, location: SourceLocation | null): ProfileNode {
+    return {
+      id: this.nextId++, name, location, children: new Map(),
+      selfTime: 0, hitCount: 0
+    }
+  }
+}
+
+/**
+ * Returns the name of the top-level definition being evaluated: the outermost
+ * value of `env.nameVar` in `dynamics`, which, unlike the innermost value, is
+ * not the name of a local `let` binding.
+ */
+function topLevelName(env: Env, dynamics: DynamicMap | undefined): string | null {
+  let name: string | null = null
+  for (let ds = dynamics; ds; ds = ds.next) {
+    if (ds.key === env.nameVar && typeof ds.value === 'string') name = ds.value
+  }
+  return name
+}
+
+function pad(str: string, width: number): string {
+  return str.length >= width ? str + ' ' : ' '.repeat(width - str.length) + str
+}
+
+function locationString({filename, line, column}: SourceLocation): string {
+  const file = filename == null ? '?'
+    : path.isAbsolute(filename) ? path.relative(process.cwd(), filename)
+    : filename
+  return `${file}:${line}:${column}`
+}
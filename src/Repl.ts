@@ -4,24 +4,38 @@ import {Jaspr, Callback} from './Jaspr'
 import Parser from './Parser'
 const {blank} = require('printable-characters')
 
+/**
+ * Commands that can be entered at a REPL prompt instead of a Jaspr value, as
+ * `:name argument`. Each command is passed the rest of the line (trimmed), and
+ * returns true if the prompt is finished, like it would be after a value was
+ * entered.
+ */
+export interface Commands {
+  [name: string]: (arg: string) => boolean | void
+}
+
 let
   promptStacks: {
-    prompt: string, message?: string, cb: Callback, onBlank?: () => void
+    prompt: string, message?: string, cb: Callback, onBlank?: () => void,
+    commands?: Commands
   }[][] = [],
   currentCallback: any = null, currentOnBlank: any = null, currentPrompt = '>',
-  currentPriority = 0, parser: Parser | null = null,
+  currentCommands: Commands | undefined = undefined,
+  currentPriority = 0, parser: Parser | null = null, partial = false,
   readline: ReadLine.ReadLine | null = null
 
 function nextPrompt(
-  {prompt, message, onBlank}:
-    {prompt: string, message?: string, onBlank?: () => void},
+  {prompt, message, onBlank, commands}:
+    {prompt: string, message?: string, onBlank?: () => void, commands?: Commands},
   priority: number,
   cb: Callback
 ) {
   parser = new Parser('REPL Input')
+  partial = false
   currentPriority = priority
   currentCallback = cb
   currentPrompt = prompt
+  currentCommands = commands
   currentOnBlank = onBlank || (() => {
     parser = new Parser('REPL Input')
     rl.setPrompt(prompt + ' ')
@@ -38,17 +52,30 @@ function makeReadline(): ReadLine.ReadLine {
     input: process.stdin,
     output: process.stdout
   })
+  const reprompt = () => {
+    parser = new Parser('REPL Input')
+    partial = false
+    rl.setPrompt(currentPrompt + ' ')
+    rl.prompt()
+  }
   rl.on('line', input => {
     if (!currentCallback) return
     if (input.trim() === '') {
       currentOnBlank()
-      for (let i = 0; i < promptStacks.length; i++) {
-        if (!promptStacks[i]) continue
-        const next = promptStacks[i].pop()
-        if (next) return nextPrompt(next, i, next.cb)
+      return popPrompt()
+    }
+    if (!partial && currentCommands && input.trim().startsWith(':')) {
+      const [, name, arg] = /^\s*:(\S*)\s*(.*)$/.exec(input) || ['', '', '']
+      const command = currentCommands[name]
+      if (!command) {
+        console.error(`Unknown command :${name}. Commands: ${
+          Object.keys(currentCommands).map(c => ':' + c).join(', ')}`)
+        return reprompt()
       }
-      currentCallback = null
-      return
+      let done: boolean | void = false
+      try { done = command(arg.trim()) }
+      catch (ex) { console.error(ex) }
+      return done ? popPrompt() : reprompt()
     }
     const p = parser || (parser = new Parser('REPL Input'))
     let result: Jaspr | undefined = undefined
@@ -57,28 +84,32 @@ function makeReadline(): ReadLine.ReadLine {
       if (p.isDone()) {
         result = p.getOneResult()
       } else {
+        partial = true
         rl.setPrompt(chalk.gray('…') + blank(currentPrompt))
         rl.prompt()
       }
     } catch (ex) {
       console.error(ex)
-      parser = new Parser('REPL Input')
-      rl.setPrompt(currentPrompt + ' ')
-      rl.prompt()
+      reprompt()
     }
     if (result !== undefined) {
       currentCallback(result)
-      for (let i = 0; i < promptStacks.length; i++) {
-        if (!promptStacks[i]) continue
-        const next = promptStacks[i].pop()
-        if (next) return nextPrompt(next, i, next.cb)
-      }
-      currentCallback = null
+      popPrompt()
     }
   }).on('close', () => process.exit(0))
   return rl
 }
 
+/** Displays the next pending prompt, if there is one. */
+function popPrompt(): void {
+  for (let i = 0; i < promptStacks.length; i++) {
+    if (!promptStacks[i]) continue
+    const next = promptStacks[i].pop()
+    if (next) return nextPrompt(next, i, next.cb)
+  }
+  currentCallback = null
+}
+
 /**
  * Displays a REPL prompt, waits for user input, parses user input, then passes
  * the parsed input to `cb`¹. The prompt is displayed again if parsing fails.
@@ -105,6 +136,8 @@ function makeReadline(): ReadLine.ReadLine {
  *   - `message`: Optional. A message to display before the first prompt.
  *   - `onBlank`: Optional. Callback that is called if the user presses ENTER
  *     without typing anything.
+ *   - `commands`: Optional. {@link Commands} that can be entered at the prompt
+ *     instead of a value.
  * @param cb Callback that is called with the Jaspr value parsed from user input
  */
 export default function repl(
@@ -112,7 +145,8 @@ export default function repl(
     prompt: string,
     priority: number,
     message?: string,
-    onBlank?: () => void
+    onBlank?: () => void,
+    commands?: Commands
   },
   cb: Callback
 ) {
@@ -122,7 +156,10 @@ export default function repl(
   } else {
     if (currentCallback) {
       (promptStacks[currentPriority] || (promptStacks[currentPriority] = []))
-        .push({prompt: currentPrompt, onBlank: currentOnBlank, cb: currentCallback})
+        .push({
+          prompt: currentPrompt, onBlank: currentOnBlank, cb: currentCallback,
+          commands: currentCommands
+        })
     }
     nextPrompt(options, options.priority, cb)
   }
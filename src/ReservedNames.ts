@@ -3,10 +3,12 @@ export const prefix = '$'
 
 export const primitiveModule = 'jaspr.primitive'
 export const stdlibModule = 'jaspr'
+export const debugModule = 'jaspr.debug'
 export const version = '0.1.171228'
 
 export const closure = prefix + 'closure'
 export const code = prefix + 'code'
+export const arity = prefix + 'arity'
 export const args = prefix + 'args'
 export const chan = prefix + 'chan'
 export const dynamic = prefix + 'dynamic'
@@ -0,0 +1,317 @@
+/**
+ * A JSON Schema validator.
+ *
+ * Supports the validation keywords of JSON Schema draft-06: `type`, `enum`,
+ * `const`, the numeric bounds (`minimum`, `maximum`, `exclusiveMinimum`,
+ * `exclusiveMaximum`, `multipleOf`), the string keywords (`minLength`,
+ * `maxLength`, `pattern`), the array keywords (`items`, `additionalItems`,
+ * `minItems`, `maxItems`, `uniqueItems`, `contains`), the object keywords
+ * (`properties`, `patternProperties`, `additionalProperties`, `required`,
+ * `minProperties`, `maxProperties`, `dependencies`, `propertyNames`), the
+ * combinators (`allOf`, `anyOf`, `oneOf`, `not`), and `$ref`. Only references
+ * to the same schema (`#`, or a JSON pointer like `#/definitions/name`) are
+ * supported. `format` and other annotations are ignored.
+ */
+
+import * as _ from 'lodash'
+import {
+  Jaspr, JasprObject, JasprError, Deferred, isArray, isObject, magicSymbol
+} from './Jaspr'
+
+/** One way in which a value does not match a schema */
+export interface SchemaError extends JasprObject {
+  /** JSON pointer to the part of the value that does not match */
+  path: string
+  /** The schema keyword that the value does not satisfy */
+  keyword: string
+  why: string
+}
+
+/**
+ * A JSON Schema. Schemas are never evaluated, so they never contain Deferred
+ * values.
+ */
+type Schema = {[keyword: string]: Jaspr}
+
+const regexes = new Map<string, RegExp>()
+
+function regex(pattern: string): RegExp {
+  let re = regexes.get(pattern)
+  if (!re) {
+    re = new RegExp(pattern, 'u')
+    regexes.set(pattern, re)
+  }
+  return re
+}
+
+function typeOf(value: Jaspr): string {
+  if (value === null) return 'null'
+  if (isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value
+}
+
+function hasType(value: Jaspr, type: Jaspr): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+/** Escapes `key` for use as one segment of a JSON pointer */
+function pointerSegment(key: string | number): string {
+  return ('' + key).replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Finds the part of `root` that the `$ref` URI `ref` points to, or returns
+ * undefined if it cannot be found.
+ */
+function resolveRef(root: Jaspr, ref: string): Jaspr | undefined {
+  if (ref.charAt(0) !== '#') return undefined
+  const pointer = decodeURIComponent(ref.slice(1))
+  if (pointer === '') return root
+  if (pointer.charAt(0) !== '/') return undefined
+  let target: Jaspr | Deferred | undefined = root
+  for (let segment of pointer.slice(1).split('/')) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~')
+    if (isArray(<Jaspr>target)) target = (<Jaspr[]>target)[+key]
+    else if (isObject(<Jaspr>target) && _.has(<JasprObject>target, key)) {
+      target = (<JasprObject>target)[key]
+    } else return undefined
+  }
+  return <Jaspr | undefined>target
+}
+
+/**
+ * Validates `value` against the JSON Schema `schema`, and returns every way in
+ * which it does not match. If `value` matches, the returned array is empty.
+ *
+ * Parts of `value` that have not resolved yet are not checked, and neither are
+ * the contents of magic objects.
+ */
+export function schemaErrors(
+  schema: Jaspr,
+  value: Jaspr | Deferred
+): SchemaError[] {
+  const errors: SchemaError[] = []
+  check(schema, value, '', errors, schema, [])
+  return errors
+}
+
+/** Tests whether `value` matches the JSON Schema `schema`. */
+export function isValid(schema: Jaspr, value: Jaspr | Deferred): boolean {
+  return schemaErrors(schema, value).length === 0
+}
+
+/**
+ * Validates `value` against the JSON Schema `schema`. Returns null if it
+ * matches, or a `NotValid` error listing every way in which it does not match.
+ */
+export function validationError(
+  schema: Jaspr,
+  value: Jaspr | Deferred
+): JasprError | null {
+  const errors = schemaErrors(schema, value)
+  return errors.length === 0 ? null : {
+    err: 'NotValid', why: 'value does not match schema', value, errors
+  }
+}
+
+function check(
+  schema: Jaspr,
+  value: Jaspr | Deferred,
+  path: string,
+  errors: SchemaError[],
+  root: Jaspr,
+  refs: string[]
+): void {
+  if (value instanceof Deferred) {
+    if (value.value === undefined) return
+    value = value.value
+  }
+  if (schema === true) return
+  if (schema === false) {
+    return void errors.push({path, keyword: 'false', why: 'no value is allowed'})
+  }
+  if (!isObject(schema)) return
+  const s = <Schema>schema, v = value
+  const fail = (keyword: string, why: string) =>
+    void errors.push({path, keyword, why})
+  const matches = (sub: Jaspr) => {
+    const subErrors: SchemaError[] = []
+    check(sub, v, path, subErrors, root, refs)
+    return subErrors.length === 0
+  }
+
+  // $ref: all other keywords are ignored
+  const ref = s.$ref
+  if (typeof ref === 'string') {
+    const target = resolveRef(root, ref)
+    if (target === undefined) return fail('$ref', `cannot resolve $ref ${ref}`)
+    // A reference cycle that never reaches a value would otherwise loop forever
+    const key = `${path}\n${ref}`
+    if (refs.indexOf(key) >= 0) return
+    return check(target, v, path, errors, root, [...refs, key])
+  }
+
+  // Any type
+  if (s.type !== undefined) {
+    const types = isArray(s.type) ? <Jaspr[]>s.type : [s.type]
+    if (!types.some(t => hasType(v, t))) {
+      fail('type', `expected ${types.join(' or ')}, got ${typeOf(v)}`)
+    }
+  }
+  if (isArray(s.enum) && !(<Jaspr[]>s.enum).some(x => _.isEqual(x, v))) {
+    fail('enum', `expected one of ${JSON.stringify(s.enum)}`)
+  }
+  if (s.const !== undefined && !_.isEqual(s.const, v)) {
+    fail('const', `expected ${JSON.stringify(s.const)}`)
+  }
+  if (isArray(s.allOf)) {
+    for (let sub of <Jaspr[]>s.allOf) check(sub, v, path, errors, root, refs)
+  }
+  if (isArray(s.anyOf) && !(<Jaspr[]>s.anyOf).some(matches)) {
+    fail('anyOf', 'does not match any schema in anyOf')
+  }
+  if (isArray(s.oneOf)) {
+    const count = (<Jaspr[]>s.oneOf).filter(matches).length
+    if (count !== 1) {
+      fail('oneOf', `matches ${count} schemas in oneOf, expected exactly 1`)
+    }
+  }
+  if (s.not !== undefined && matches(s.not)) {
+    fail('not', 'matches the schema in not')
+  }
+
+  // Numbers
+  if (typeof v === 'number') {
+    const {minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf} = s
+    if (typeof minimum === 'number' && v < minimum) {
+      fail('minimum', `must be at least ${minimum}`)
+    }
+    if (typeof maximum === 'number' && v > maximum) {
+      fail('maximum', `must be at most ${maximum}`)
+    }
+    if (typeof exclusiveMinimum === 'number' && v <= exclusiveMinimum) {
+      fail('exclusiveMinimum', `must be greater than ${exclusiveMinimum}`)
+    }
+    if (typeof exclusiveMaximum === 'number' && v >= exclusiveMaximum) {
+      fail('exclusiveMaximum', `must be less than ${exclusiveMaximum}`)
+    }
+    if (typeof multipleOf === 'number' &&
+        !Number.isInteger(+(v / multipleOf).toPrecision(15))) {
+      fail('multipleOf', `must be a multiple of ${multipleOf}`)
+    }
+  }
+
+  // Strings
+  else if (typeof v === 'string') {
+    const {minLength, maxLength, pattern} = s
+    // Lengths are measured in code points, not UTF-16 code units
+    const length = [...v].length
+    if (typeof minLength === 'number' && length < minLength) {
+      fail('minLength', `must be at least ${minLength} characters long`)
+    }
+    if (typeof maxLength === 'number' && length > maxLength) {
+      fail('maxLength', `must be at most ${maxLength} characters long`)
+    }
+    if (typeof pattern === 'string' && !regex(pattern).test(v)) {
+      fail('pattern', `does not match pattern ${pattern}`)
+    }
+  }
+
+  // Arrays
+  else if (isArray(v)) {
+    const {items, additionalItems, minItems, maxItems, uniqueItems, contains} = s
+    if (typeof minItems === 'number' && v.length < minItems) {
+      fail('minItems', `must have at least ${minItems} items`)
+    }
+    if (typeof maxItems === 'number' && v.length > maxItems) {
+      fail('maxItems', `must have at most ${maxItems} items`)
+    }
+    if (isArray(items)) {
+      v.forEach((item, i) => {
+        const itemSchema = i < items.length ? <Jaspr>items[i] : additionalItems
+        if (itemSchema !== undefined) {
+          check(itemSchema, item, `${path}/${i}`, errors, root, refs)
+        }
+      })
+    } else if (items !== undefined) {
+      v.forEach((item, i) => check(items, item, `${path}/${i}`, errors, root, refs))
+    }
+    if (uniqueItems === true) {
+      const resolved = v.map(x => x instanceof Deferred ? x.value : x)
+      if (resolved.some((x, i) => resolved.findIndex(y => _.isEqual(x, y)) < i)) {
+        fail('uniqueItems', 'items must be unique')
+      }
+    }
+    if (contains !== undefined && !v.some(item => {
+      const subErrors: SchemaError[] = []
+      check(contains, item, path, subErrors, root, refs)
+      return subErrors.length === 0
+    })) {
+      fail('contains', 'no item matches the schema in contains')
+    }
+  }
+
+  // Objects
+  else if (isObject(v) && !(magicSymbol in v)) {
+    const {
+      properties, patternProperties, additionalProperties, required,
+      minProperties, maxProperties, dependencies, propertyNames
+    } = s
+    const keys = Object.keys(v)
+    if (typeof minProperties === 'number' && keys.length < minProperties) {
+      fail('minProperties', `must have at least ${minProperties} properties`)
+    }
+    if (typeof maxProperties === 'number' && keys.length > maxProperties) {
+      fail('maxProperties', `must have at most ${maxProperties} properties`)
+    }
+    if (isArray(required)) {
+      for (let key of <Jaspr[]>required) {
+        if (!_.has(v, '' + key)) fail('required', `missing required property ${key}`)
+      }
+    }
+    if (isObject(dependencies)) {
+      for (let key of Object.keys(dependencies)) {
+        if (!_.has(v, key)) continue
+        const dependency = <Jaspr>dependencies[key]
+        if (isArray(dependency)) {
+          for (let dep of <Jaspr[]>dependency) {
+            if (!_.has(v, '' + dep)) {
+              fail('dependencies', `property ${key} requires property ${dep}`)
+            }
+          }
+        } else check(dependency, v, path, errors, root, refs)
+      }
+    }
+    for (let key of keys) {
+      const keyPath = `${path}/${pointerSegment(key)}`
+      if (propertyNames !== undefined) {
+        const nameErrors: SchemaError[] = []
+        check(propertyNames, key, keyPath, nameErrors, root, refs)
+        if (nameErrors.length > 0) {
+          errors.push({path: keyPath, keyword: 'propertyNames',
+            why: `property name ${key} is not valid`})
+        }
+      }
+      let matched = false
+      if (isObject(properties) && _.has(properties, key)) {
+        matched = true
+        check(<Jaspr>properties[key], v[key], keyPath, errors, root, refs)
+      }
+      if (isObject(patternProperties)) {
+        for (let pattern of Object.keys(patternProperties)) {
+          if (!regex(pattern).test(key)) continue
+          matched = true
+          check(<Jaspr>patternProperties[pattern], v[key], keyPath, errors, root, refs)
+        }
+      }
+      if (!matched && additionalProperties !== undefined) {
+        if (additionalProperties === false) {
+          errors.push({path: keyPath, keyword: 'additionalProperties',
+            why: `property ${key} is not allowed`})
+        } else check(additionalProperties, v[key], keyPath, errors, root, refs)
+      }
+    }
+  }
+}
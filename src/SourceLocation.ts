@@ -0,0 +1,108 @@
+/**
+ * Source locations of parsed code.
+ *
+ * The parser records the location of every array and object it reads in a
+ * side table, instead of in the parsed value itself, so that parsed code is
+ * still plain JSON. Macro expansion copies locations from the code it expands
+ * to the expanded code, and error signals raised while evaluating located code
+ * include its location as an `at` key (see {@link raise}).
+ *
+ * Locations can be saved along with cached code, as a {@link LocationTable},
+ * and restored once the cached code has been read back.
+ */
+
+import {Jaspr, JsonObject, Deferred, isArray, isObject, magicSymbol} from './Jaspr'
+
+/** The location of a piece of code in its source file */
+export interface SourceLocation extends JsonObject {
+  filename: string | null
+  /** Line number, starting at 1 */
+  line: number
+  /** Column number, starting at 1 */
+  column: number
+}
+
+/**
+ * The locations of every array and object in a piece of code, in depth-first
+ * order, in a form that can be stored as JSON. `positions` contains a
+ * `[filename, line, column]` triple for each array or object, where `filename`
+ * is an index into `filenames`; every element of a triple is -1 if the array
+ * or object has no location.
+ */
+export interface LocationTable extends JsonObject {
+  filenames: string[]
+  positions: number[]
+}
+
+const locations = new WeakMap<object, SourceLocation>()
+
+/** Records that the array or object `code` was read from `location`. */
+export function setLocation(code: object, location: SourceLocation): void {
+  locations.set(code, location)
+}
+
+/** Returns the location that `code` was read from, or null if it is unknown. */
+export function locationOf(code: Jaspr | Deferred | undefined): SourceLocation | null {
+  if (code instanceof Deferred) code = code.value
+  if (code == null || typeof code !== 'object') return null
+  return locations.get(code) || null
+}
+
+/**
+ * If `to` is an array or object with no known location, gives it the location
+ * of `from`. Returns `to`.
+ */
+export function copyLocation<T extends Jaspr | Deferred>(from: Jaspr | Deferred, to: T): T {
+  if (to != null && typeof to === 'object' && !(to instanceof Deferred) &&
+      !locations.has(<any>to)) {
+    const location = locationOf(from)
+    if (location) locations.set(<any>to, location)
+  }
+  return to
+}
+
+/** Calls `fn` on every array and non-magic object in `code`, depth-first. */
+function walk(code: Jaspr | Deferred, fn: (code: object) => void): void {
+  if (code instanceof Deferred) {
+    if (code.value === undefined) return
+    code = code.value
+  }
+  if (isArray(code)) {
+    fn(code)
+    for (let x of code) walk(x, fn)
+  } else if (isObject(code) && !(magicSymbol in code)) {
+    fn(code)
+    for (let key of Object.keys(code)) walk(code[key], fn)
+  }
+}
+
+/** Returns the locations of every array and object in `code`. */
+export function locationTable(code: Jaspr | Deferred): LocationTable {
+  const filenames: string[] = [], positions: number[] = []
+  walk(code, x => {
+    const location = locations.get(x)
+    if (!location) return void positions.push(-1, -1, -1)
+    let file = -1
+    if (location.filename != null) {
+      file = filenames.indexOf(location.filename)
+      if (file < 0) file = filenames.push(location.filename) - 1
+    }
+    positions.push(file, location.line, location.column)
+  })
+  return {filenames, positions}
+}
+
+/**
+ * Restores the locations in `table`, which was created by
+ * {@link locationTable}, to a copy of the code it was created from.
+ */
+export function restoreLocations(code: Jaspr | Deferred, table: LocationTable): void {
+  const {filenames, positions} = table
+  let i = 0
+  walk(code, x => {
+    const [file, line, column] = positions.slice(i, i += 3)
+    if (line >= 0) locations.set(x, {
+      filename: file >= 0 ? filenames[file] : null, line, column
+    })
+  })
+}
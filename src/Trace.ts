@@ -0,0 +1,90 @@
+/**
+ * Execution tracing.
+ *
+ * A {@link Tracer} writes a JSON object, on its own line, for each event in a
+ * running Jaspr program: fibers being spawned, resolved, and canceled, signals
+ * being raised, messages being sent and received on channels, and macros being
+ * expanded. Each event has a timestamp and the id of the fiber it happened in.
+ *
+ * Tracing is a property of fibers: a fiber is traced if the fiber that spawned
+ * it is traced. Every fiber is traced if the tracer is {@link Tracer.enabled}
+ * (the `--trace` option); otherwise, only fibers spawned while the dynamic
+ * variable `jaspr.debug.trace` is true are traced.
+ */
+
+import {Jaspr, Json, JsonObject, Deferred} from './Jaspr'
+import prettyPrint from './PrettyPrint'
+
+export type TraceEventType =
+  'spawn' | 'resolve' | 'cancel' | 'signal' | 'send' | 'recv' | 'macroexpand'
+
+/** An event to be traced. Events may have other properties. */
+export interface TraceEvent extends JsonObject {
+  event: TraceEventType
+  /** The id of the fiber the event happened in or to */
+  fiber: number | null
+  /** The name of the definition being evaluated, if known */
+  name: string | null
+}
+
+/**
+ * An event passed to `Env.trace`, which fills in its `fiber`, and its `name`
+ * if it has none.
+ */
+export interface TraceEventInit {
+  event: TraceEventType
+  name?: string | null
+  [key: string]: Json | undefined
+}
+
+export class Tracer {
+  /** If true, every fiber is traced, unless `jaspr.debug.trace` is false */
+  enabled = false
+  /**
+   * If not empty, only events in these definitions are written. Names may be
+   * unqualified (`foo`), qualified without a version (`mod.foo`), or fully
+   * qualified (`mod.foo@1.0`).
+   */
+  readonly names = new Set<string>()
+  /** True once any fiber has been traced */
+  used = false
+  /** Writes one line of output */
+  write: (line: string) => void
+  private readonly startTime = Date.now()
+  private readonly startHrtime = process.hrtime()
+
+  constructor(write = (line: string) => { process.stderr.write(line + '\n') }) {
+    this.write = write
+  }
+
+  /** Tests whether events in the definition `name` pass the name filter. */
+  matches(name: string | null): boolean {
+    if (this.names.size === 0) return true
+    if (name == null) return false
+    const unversioned = name.replace(/@[^@]*$/, '')
+    return this.names.has(name) || this.names.has(unversioned) ||
+      this.names.has(unversioned.slice(unversioned.lastIndexOf('.') + 1))
+  }
+
+  /**
+   * Writes `event`, with a `t` property containing the current time in
+   * milliseconds since the epoch (with sub-millisecond precision).
+   */
+  emit(event: TraceEvent): void {
+    if (!this.matches(event.name)) return
+    const [s, ns] = process.hrtime(this.startHrtime)
+    const t = this.startTime + s * 1e3 + ns / 1e6
+    this.write(JSON.stringify(Object.assign({t}, event)))
+  }
+}
+
+/**
+ * Returns `value` printed on one line and shortened to at most `max`
+ * characters, for trace output.
+ */
+export function summarize(value: Jaspr | Deferred | undefined, max = 80): string | null {
+  if (value instanceof Deferred) value = value.value
+  if (value === undefined) return null
+  const printed = prettyPrint(value, false).replace(/\s+/g, ' ')
+  return printed.length > max ? printed.slice(0, max - 1) + '…' : printed
+}
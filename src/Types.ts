@@ -0,0 +1,139 @@
+/**
+ * Type annotations, defined in the `type` context.
+ *
+ * A type annotation describes the arguments and return value of the function
+ * of the same name: `{args: [t₀, t₁, … tₙ], rest: t, returns: t}`. `args` lists
+ * the types of the fixed arguments; `rest`, if present, is the type of any
+ * additional arguments; `returns` is the type of the return value. All three
+ * are optional.
+ *
+ * Each type is a JSON Schema (see `Schema.ts`), or a string naming a JSON type
+ * (shorthand for `{type: name}`), or `any`.
+ *
+ * Calls whose arguments are literals are checked during macro expansion. Other
+ * calls are only checked at runtime, if {@link Env.checkTypes} is set.
+ */
+
+import * as _ from 'lodash'
+import {
+  Jaspr, JasprArray, JasprObject, JasprError, Deferred, isArray, isObject,
+  magicSymbol
+} from './Jaspr'
+import {arityString} from './Interpreter'
+import {SchemaError, schemaErrors} from './Schema'
+
+/** A type annotation for a function */
+export interface FunctionType {
+  args: Jaspr[]
+  rest?: Jaspr
+  returns?: Jaspr
+}
+
+/**
+ * Returns the function type described by the annotation `annotation`, or null
+ * if it does not describe a function.
+ */
+export function functionType(annotation: Jaspr): FunctionType | null {
+  if (!isObject(annotation) ||
+      !(_.has(annotation, 'args') || _.has(annotation, 'returns'))) {
+    return null
+  }
+  const {args, rest, returns} = <{[key: string]: Jaspr}>annotation
+  return {
+    args: isArray(args) ? <Jaspr[]>args : [],
+    rest: _.has(annotation, 'rest') ? rest : args === undefined ? 'any' : undefined,
+    returns
+  }
+}
+
+/** Converts the type `type` to a JSON Schema. */
+function typeSchema(type: Jaspr): Jaspr {
+  if (type === 'any') return true
+  if (typeof type === 'string') return {type}
+  return type
+}
+
+/**
+ * Checks `value` against the type `type`, and returns every way in which it
+ * does not match. Parts of `value` that have not resolved yet are not checked.
+ */
+export function typeErrors(type: Jaspr, value: Jaspr | Deferred): SchemaError[] {
+  return schemaErrors(typeSchema(type), value)
+}
+
+/**
+ * Returns the value of `code` if it is a literal that can be known without
+ * evaluating it, or undefined otherwise.
+ */
+export function literalValue(code: Jaspr | Deferred): Jaspr | undefined {
+  if (code instanceof Deferred) {
+    if (code.value === undefined) return undefined
+    code = code.value
+  }
+  if (code === null || typeof code === 'boolean' || typeof code === 'number') {
+    return code
+  } else if (isArray(code)) {
+    if (code.length === 0) return []
+    if (code.length === 2 && code[0] === '') {
+      const quoted = code[1]
+      return quoted instanceof Deferred ? quoted.value : quoted
+    }
+    if (isArray(<Jaspr>code[0]) && (<JasprArray>code[0]).length === 0) {
+      const elements = code.slice(1).map(literalValue)
+      return elements.some(x => x === undefined) ? undefined : <Jaspr[]>elements
+    }
+  } else if (isObject(code) && !(magicSymbol in code)) {
+    const values = _.mapValues(code, literalValue)
+    return _.some(values, x => x === undefined) ? undefined : <JasprObject>values
+  }
+  return undefined
+}
+
+/**
+ * Checks the arguments `args` of a call to the function `name` against its
+ * type `type`. Returns null if they match, or a `BadArgs` error otherwise.
+ *
+ * @param literal If true, `args` are unevaluated code, and only arguments
+ *   that are literals are checked.
+ */
+export function argsTypeError(
+  name: string,
+  type: FunctionType,
+  args: (Jaspr | Deferred)[],
+  literal = false
+): JasprError | null {
+  const min = type.args.length, max = type.rest === undefined ? min : null
+  if (args.length < min || (max != null && args.length > max)) return {
+    err: 'BadArgs',
+    why: `expected ${arityString({min, max})}, got ${args.length}`,
+    fn: name, args: <any>args, expected: <any>_.omitBy(type, _.isUndefined)
+  }
+  for (let i = 0; i < args.length; i++) {
+    const arg = literal ? literalValue(args[i]) : args[i]
+    if (arg === undefined) continue
+    const argType = i < min ? type.args[i] : <Jaspr>type.rest
+    const errors = typeErrors(argType, arg)
+    if (errors.length > 0) return {
+      err: 'BadArgs', why: `argument ${i} does not match type annotation`,
+      fn: name, args: <any>args, index: i, expected: argType, errors
+    }
+  }
+  return null
+}
+
+/**
+ * Checks the return value `value` of a call to the function `name` against its
+ * type `type`. Returns null if it matches, or a `BadArgs` error otherwise.
+ */
+export function returnTypeError(
+  name: string,
+  type: FunctionType,
+  value: Jaspr
+): JasprError | null {
+  if (type.returns === undefined) return null
+  const errors = typeErrors(type.returns, value)
+  return errors.length > 0 ? {
+    err: 'BadArgs', why: 'return value does not match type annotation',
+    fn: name, value, expected: type.returns, errors
+  } : null
+}
@@ -0,0 +1,114 @@
+/**
+ * Module version numbers and version constraints.
+ *
+ * Jaspr module versions (the `$version` property of a module) are strings of
+ * `.`-separated segments, like `1.0` or `0.1.171228`. Segments are compared
+ * numerically if they are both numbers, or lexically otherwise; missing
+ * segments are treated as `0`. A version may end with a pre-release suffix,
+ * after a `-` (`1.0-beta.2`); it is older than the same version without the
+ * suffix, and suffixes are compared segment by segment in the same way.
+ *
+ * A version constraint (the `version` property of an import) is a
+ * whitespace-separated list of comparisons, all of which must match:
+ *
+ * - `1.2` or `=1.2`: exactly `1.2` (`1.2.0` also matches)
+ * - `^1.2`: at least `1.2`, below the next change to the leftmost nonzero
+ *   segment (`^1.2` → `<2`, `^0.3.1` → `<0.4`)
+ * - `~1.2.3`: at least `1.2.3`, below the next change to the second segment
+ *   (`~1.2.3` → `<1.3`), or to the first segment if only one is given
+ *   (`~1` → `<2`)
+ *
+ *   Pre-releases of the upper bound of `^` and `~` do not match (`^1.2` does
+ *   not match `2.0-beta`).
+ * - `>1.2`, `>=1.2`, `<1.2`, `<=1.2`: ordinary comparisons
+ * - `*`: any version
+ */
+
+import * as _ from 'lodash'
+
+const comparisonRegex = /^(\^|~|=|>=|<=|>|<)?([^\s^~=<>*]+)$/
+
+function segments(version: string): (number | string)[] {
+  return version.split('.').map(s => /^\d+$/.test(s) ? +s : s)
+}
+
+/** Splits `version` into its release and its pre-release suffix, if any. */
+function splitPreRelease(version: string): [string, string | null] {
+  const dash = version.indexOf('-')
+  return dash < 0 ? [version, null]
+    : [version.slice(0, dash), version.slice(dash + 1)]
+}
+
+function compareSegments(a: string, b: string): number {
+  const as = segments(a), bs = segments(b)
+  for (let i = 0; i < Math.max(as.length, bs.length); i++) {
+    const x = i < as.length ? as[i] : 0, y = i < bs.length ? bs[i] : 0
+    if (x === y) continue
+    if (typeof x === 'number' && typeof y === 'number') return x - y
+    return ('' + x) < ('' + y) ? -1 : 1
+  }
+  return 0
+}
+
+/**
+ * Compares two version strings. Returns a negative number if `a` is older
+ * than `b`, a positive number if `a` is newer, and `0` if they are equal.
+ */
+export function compareVersions(a: string, b: string): number {
+  const [aRelease, aPre] = splitPreRelease(a)
+  const [bRelease, bPre] = splitPreRelease(b)
+  const cmp = compareSegments(aRelease, bRelease)
+  if (cmp !== 0 || aPre === bPre) return cmp
+  if (aPre === null) return 1
+  if (bPre === null) return -1
+  return compareSegments(aPre, bPre)
+}
+
+/** Returns the version `bound` with segment `index` incremented, and every
+ *  later segment removed. */
+function bump(bound: (number | string)[], index: number): string {
+  const out = bound.slice(0, index + 1)
+  const last = out[index]
+  out[index] = typeof last === 'number' ? last + 1 : 0
+  return _.join(out, '.')
+}
+
+function matches(version: string, comparison: string): boolean {
+  const match = comparisonRegex.exec(comparison)
+  if (!match) return false
+  const [_m, op, bound] = match
+  const cmp = compareVersions(version, bound), [release] = splitPreRelease(version)
+  switch (op) {
+    case '>': return cmp > 0
+    case '>=': return cmp >= 0
+    case '<': return cmp < 0
+    case '<=': return cmp <= 0
+    case '^': {
+      const bs = segments(splitPreRelease(bound)[0])
+      let i = _.findIndex(bs, s => s !== 0)
+      if (i < 0) i = bs.length - 1
+      return cmp >= 0 && compareVersions(release, bump(bs, i)) < 0
+    }
+    case '~': {
+      const bs = segments(splitPreRelease(bound)[0])
+      return cmp >= 0 &&
+        compareVersions(release, bump(bs, Math.min(1, bs.length - 1))) < 0
+    }
+    default: return cmp === 0
+  }
+}
+
+/** Tests whether `constraint` is a syntactically valid version constraint. */
+export function isVersionConstraint(constraint: string): boolean {
+  return _.every(constraint.trim().split(/\s+/),
+    c => c === '*' || c === '' || comparisonRegex.test(c))
+}
+
+/**
+ * Tests whether the module version `version` satisfies the version constraint
+ * `constraint`.
+ */
+export function satisfies(version: string, constraint: string): boolean {
+  return _.every(constraint.trim().split(/\s+/),
+    c => c === '*' || c === '' || matches(version, c))
+}
@@ -1,33 +1,40 @@
-import * as commandLineArgs from 'command-line-args'
 import * as _ from 'lodash'
 import * as path from 'path'
 import chalk from 'chalk'
-import {readFile, writeFile} from 'fs'
-import {Jaspr, Callback, resolveFully} from './Jaspr'
-import {Env, Scope, mergeScopes, expandAndEval, waitFor} from './Interpreter'
-import {Root, Branch, ErrorHandler} from './Fiber'
+import {readFile, writeFile, writeFileSync, openSync, writeSync} from 'fs'
+import {Jaspr, Callback, Deferred, resolveFully} from './Jaspr'
+import {
+  Env, Scope, Frame, FiberDescriptor, mergeScopes, expandAndEval, evalExpr, waitFor,
+  redefine
+} from './Interpreter'
+import {Root, Branch, Fiber, ErrorHandler} from './Fiber'
+import Debugger, {StepMode} from './Debugger'
+import Profiler from './Profiler'
+import Compiler from './Compiler'
 import Parser from './Parser'
 import {parseMarkdown, markdownExtensions} from './LiterateParser'
-import {Module, ModuleSource, readModuleFile, evalModule, importModule} from './Module'
+import {locationOf} from './SourceLocation'
+import {
+  Module, ModuleSource, readModuleFile, evalModule, importModule, envSearchPath
+} from './Module'
+import {ModuleGraph, readModuleGraph} from './ModuleGraph'
+import {parseOptions} from './CommandLine'
+import {defaultCacheDir, sha256} from './Cache'
 import primitives from './JasprPrimitive'
-import {primitiveModule, stdlibModule, version} from './ReservedNames'
+import debug from './JasprDebug'
+import {primitiveModule, stdlibModule, debugModule, version} from './ReservedNames'
 import prettyPrint from './PrettyPrint'
-import repl from './Repl'
+import repl, {Commands} from './Repl'
 
-const optionDefs = [
-  {name: 'convert', alias: 'c', type: String},
-  {name: 'literate', alias: 'l', type: Boolean},
-  {name: 'repl', alias: 'r', type: Boolean},
-  {name: 'stdlib', type: String},
-  {name: 'help', type: Boolean},
-  {name: 'src', type: String, multiple: true, defaultOption: true}
-]
-
-const options = commandLineArgs(optionDefs)
+const options = parseOptions()
+const stdlib = options.stdlib ||
+  path.resolve(__dirname, '..', '..', 'jaspr', 'jaspr.jaspr.md')
+const searchPath = [...options.path || [], ...envSearchPath()]
 
 if (options.help) usage()
 else if (options.convert) {
-  if (options.repl || options.stdlib || !_.isEmpty(options.src)) {
+  if (options.repl || options.stdlib || options.path || options.deps ||
+      options.check || !_.isEmpty(options.src)) {
     usage()
   } else {
     const inFile = options.convert
@@ -48,16 +55,97 @@ else if (options.convert) {
       }
     })
   }
+} else if (options.deps) {
+  const format = options.format || 'tree'
+  if (options.repl || _.isEmpty(options.src) ||
+      ['tree', 'dot', 'json'].indexOf(format) < 0) {
+    usage()
+  } else {
+    readModuleGraph(options.src, {searchPath}).then(graph => {
+      if (format === 'json') console.log(JSON.stringify(graph, null, 2))
+      else if (format === 'dot') console.log(graph.toDot())
+      else console.log(graph.toTree())
+      const cycles = graph.cycles()
+      if (cycles.length > 0) {
+        for (let cycle of cycles) {
+          console.error(chalk.redBright('⚠☠ Circular import: ') +
+            [...cycle, cycle[0]].map(f => path.relative('.', f)).join(' → '))
+        }
+        process.exit(1)
+      }
+    }, err => {
+      console.error(chalk.redBright('⚠☠ Failed to read module graph'))
+      console.error(prettyPrint(err))
+      process.exit(1)
+    })
+  }
+} else if (options.check) {
+  if (options.repl || _.isEmpty(options.src)) usage()
+  else {
+    // Modules are loaded, but $main is not run; once nothing is left to
+    // evaluate, the diagnostics reported while loading are summarized
+    const root = new Root((root, err) => {
+      console.error(chalk.redBright('⚠☠ Unhandled signal while loading modules'))
+      console.error(prettyPrint(err))
+      process.exit(1)
+    })
+    loadModules(root, [stdlib, ...options.src], searchPath, false, mods =>
+      Promise.all(mods.values()).catch(err => {
+        console.error(chalk.redBright('⚠☠ Failed to load module'))
+        console.error(prettyPrint(err))
+        process.exit(1)
+      }))
+    process.on('beforeExit', () => {
+      const errors = root.diagnostics.filter(d => d.level === 'error').length
+      const warnings = root.diagnostics.length - errors
+      if (root.diagnostics.length === 0) {
+        console.log(chalk.greenBright('✓ No problems found'))
+      } else {
+        console.error(chalk.redBright(`${errors} error(s)`) + ', ' +
+          chalk.yellowBright(`${warnings} warning(s)`))
+        if (errors > 0) process.exitCode = 1
+      }
+    })
+  }
 } else {
   const isRepl = options.repl || _.isEmpty(options.src)
-  const stdlib = options.stdlib || path.resolve(__dirname, '..', '..', 'jaspr', 'jaspr.jaspr.md')
   const scope: Promise<Scope> =
     new Promise<Module[]>(resolve => setImmediate(() =>
-      loadModules(root, [stdlib, ...options.src || []], !isRepl, mods =>
+      loadModules(root, [stdlib, ...options.src || []], searchPath, !isRepl, mods =>
         resolve(Promise.all(mods.values())))))
     .then(mods => mergeScopes(root, ...mods.map(m =>
       importModule(m, m.$module, m.$module === primitiveModule ? {} : undefined))))
   var root = new Root(consoleSignalHandler(scope))
+  root.checkTypes = !!options['check-types']
+  if (options.jit) root.compiler = new Compiler()
+  if (options.debug || options.break) {
+    const debugHook = consoleDebugger(scope)
+    for (let spec of options.break || []) debugHook.breakAt(spec)
+    root.debugHook = debugHook
+  }
+  root.tracer.enabled = !!options.trace
+  for (let name of options['trace-name'] || []) root.tracer.names.add(name)
+  if (options['trace-file']) {
+    // Written synchronously, so that no events are lost if the program exits
+    const fd = openSync(options['trace-file'], 'w')
+    root.tracer.write = line => { writeSync(fd, line + '\n') }
+  }
+  if (options.profile || options['profile-file']) {
+    const profiler = new Profiler()
+    const file = options['profile-file'] || (_.isEmpty(options.src)
+      ? 'jaspr.cpuprofile'
+      : path.basename(options.src[0], path.extname(options.src[0])) + '.cpuprofile')
+    root.profiler = profiler
+    // The program may end by running out of work or by calling process.exit,
+    // so the profile is written synchronously when the process exits
+    process.on('exit', () => {
+      profiler.stop()
+      console.error('\n' + profiler.report())
+      writeFileSync(file, JSON.stringify(profiler.toCpuProfile()))
+      console.error(chalk.gray(`Profile written to ${file}`))
+    })
+  }
+  root.detectDeadlocks()
   if (isRepl) {
     scope.then(scope => {
       console.log(chalk.greenBright('{ Jaspr: (JSON Lisp) }'))
@@ -92,23 +180,56 @@ else if (options.convert) {
 
 function consoleSignalHandler(scope: Promise<Scope>): ErrorHandler {
   let helpDisplayed = false
-  return function errorHandler(root, err, raisedIn, cb) {
+  return function errorHandler(root, err, raisedIn, cb, raisedBy) {
+    const {frame, dynamics}: FiberDescriptor =
+      raisedBy ? raisedBy.props() : {action: 'external'}
+    const endOrCancel =
+      raisedIn == root ? 'end the program' : 'cancel this fiber'
+    const trace = raisedBy
+      ? '\n' + chalk.gray('Stack trace:') + '\n' + raisedBy.stackTraceString() + '\n'
+      : ''
     const message =
       '\n🚨  ' + chalk.redBright('Unhandled Signal Encountered!') + '\n' +
-      prettyPrint(err) + '\n' + (helpDisplayed ? `
-        Provide a resume value, or press ENTER to ${
-          raisedIn == root ? 'end the program' : 'cancel this fiber'}.
+      prettyPrint(err) + '\n' + trace + (helpDisplayed ? `
+        Provide a resume value, type ${chalk.bold(':help')} for debugger commands,
+        or press ENTER to ${endOrCancel}.
       ` : `
         An unhandled signal has stopped one fiber of the running Jaspr program.
         (Other fibers may still be running!)
 
         The stopped fiber can be restarted by providing a ${
           chalk.bold('resume value')} at the
-        prompt below. Or, you can press ENTER to ${
-          raisedIn == root ? 'end the program' : 'cancel this fiber'}.
+        prompt below. Or, you can press ENTER to ${endOrCancel}.
+
+        Type ${chalk.bold(':help')} for debugger commands, which can inspect
+        the stopped fiber, and redefine or retry the code that failed.
       `).replace(/^[ ]+/gm, '')
     helpDisplayed = true
-    repl({prompt: chalk.red('!>'), message, priority: 0, onBlank: () => {
+
+    // The frames of the code that raised the signal, innermost first; commands
+    // operate on the selected frame
+    const frames: Frame[] = []
+    for (let f = frame; f; f = f.parent) frames.push(f)
+    let selected = 0
+    const frameString = (f: Frame, i: number) =>
+      `${i === selected ? '>' : ' '} ${i}: ${codeString(f.code)}`
+    const select = (i: number) => {
+      if (i < 0 || i >= frames.length) {
+        return void console.error(frames.length
+          ? 'No more frames in this direction.' : 'No frames are available.')
+      }
+      selected = i
+      console.log(frameString(frames[i], i))
+    }
+
+    // Expressions are evaluated in the selected frame, if there is one
+    const evalHere = (input: Jaspr, cb: Callback) => {
+      const f = frames[selected]
+      if (f) waitFor(expandAndEval(raisedIn, f.scope, f.$args, dynamics, input), cb)
+      else scope.then(global =>
+        waitFor(expandAndEval(raisedIn, global, [], dynamics, input), cb))
+    }
+    const cancel = () => {
       if (root === raisedIn) {
         console.error('Ending program due to unhandled signal.')
         process.exit(1)
@@ -116,39 +237,269 @@ function consoleSignalHandler(scope: Promise<Scope>): ErrorHandler {
         console.error('Canceling fiber.')
         raisedIn.cancel()
       }
-    }}, resumeValue => scope.then(scope =>
-          waitFor(expandAndEval(root, scope, [], undefined, resumeValue), cb)))
+    }
+    const commands: Commands = {
+      help() {
+        console.log(`
+          ${chalk.bold(':stack')}          Show the stack trace of the stopped fiber, and
+                          the frames of the code that raised the signal
+          ${chalk.bold(':up')}, ${chalk.bold(':down')}     Select the next outer or inner frame
+          ${chalk.bold(':code')}           Show the code of the selected frame
+          ${chalk.bold(':eval')} expr      Evaluate expr in the scope of the selected frame,
+                          with the dynamic variables of the stopped fiber
+          ${chalk.bold(':define')} name expr
+                          Evaluate expr, then replace the top-level
+                          definition name with its value
+          ${chalk.bold(':resume')} expr    Resume the stopped fiber with the value of expr
+                          (same as entering expr without a command)
+          ${chalk.bold(':retry')}          Evaluate the code of the selected frame again, and
+                          resume with its value (in frame 0, this retries the
+                          call that raised the signal)
+          ${chalk.bold(':cancel')}         ${_.upperFirst(endOrCancel)} (same as pressing ENTER)
+        `.replace(/^\n|[ ]+$/g, '').replace(/^[ ]{10}/gm, ''))
+      },
+      stack() {
+        console.log(raisedBy
+          ? raisedBy.stackTraceString()
+          : chalk.gray('No stack trace available.'))
+        if (frames.length) {
+          console.log(chalk.gray('Frames:'))
+          frames.forEach((f, i) => console.log(frameString(f, i)))
+        }
+      },
+      up() { select(selected + 1) },
+      down() { select(selected - 1) },
+      code() {
+        const f = frames[selected]
+        if (f) printCode(f.code)
+        else console.log(chalk.gray('The failing code is not known.'))
+      },
+      eval(arg) {
+        for (let input of readInput(arg)) evalHere(input, printResult)
+      },
+      define(arg) {
+        const [name, expr, ...rest] = readInput(arg)
+        if (typeof name !== 'string' || expr === undefined || rest.length > 0) {
+          return void console.error('Usage: :define name expr')
+        }
+        evalHere(expr, value => {
+          // Every scope that can see the old definition should see the new one
+          const found = _.some(frames.map(f => redefine(f.scope, name, value)))
+          if (found) console.log(chalk.green(`Redefined ${name}.`))
+          scope.then(global => {
+            if (redefine(global, name, value)) {
+              if (!found) console.log(chalk.green(`Redefined ${name}.`))
+            } else if (!found) console.error(`${name} is not defined.`)
+          })
+        })
+      },
+      resume(arg) {
+        const [input, ...rest] = readInput(arg)
+        if (input === undefined || rest.length > 0) {
+          return void console.error('Usage: :resume expr')
+        }
+        evalHere(input, cb)
+        return true
+      },
+      retry() {
+        const f = frames[selected]
+        if (!f) {
+          return void console.error('The failing code is not known, so it cannot be retried.')
+        }
+        waitFor(evalExpr(raisedIn, f.scope, f.$args, dynamics, f.code), cb)
+        return true
+      },
+      cancel() {
+        cancel()
+        return true
+      }
+    }
+    repl({prompt: chalk.red('!>'), message, priority: 0, onBlank: cancel, commands},
+      resumeValue => evalHere(resumeValue, cb))
+  }
+}
+
+function consoleDebugger(scope: Promise<Scope>): Debugger {
+  const reasons: {[reason: string]: string} = {
+    function: 'Entered function', line: 'Reached line breakpoint',
+    breakpoint: 'Reached (breakpoint!)', step: 'Stepped'
+  }
+  return new Debugger(({env, frame, dynamics, reason, fn, fiber}, resume) => {
+    const message = '\n⏸  ' + chalk.yellowBright(reasons[reason]) + ' ' +
+      (fn || codeString(frame.code)) + '\n' + chalk.gray(
+        `Type ${chalk.bold(':help')} for debugger commands, or press ENTER to continue.`)
+    const evalHere = (input: Jaspr, cb: Callback) =>
+      waitFor(expandAndEval(env, frame.scope, frame.$args, dynamics, input), cb)
+    const step = (mode?: StepMode) => () => {
+      resume(mode)
+      return true
+    }
+    const commands: Commands = {
+      help() {
+        console.log(`
+          ${chalk.bold(':stack')}          Show the stack trace of the paused fiber
+          ${chalk.bold(':code')}           Show the code that is about to be evaluated
+          ${chalk.bold(':args')}           Show the arguments ($args) of the current function
+          ${chalk.bold(':scope')}          Show the local bindings in scope
+          ${chalk.bold(':eval')} expr      Evaluate expr in the current scope (same as
+                          entering expr without a command)
+          ${chalk.bold(':step')}           Continue, and pause at the next code evaluated
+          ${chalk.bold(':next')}           Continue, and pause after the current code
+          ${chalk.bold(':out')}            Continue, and pause after the code that contains
+                          the current code
+          ${chalk.bold(':continue')}       Continue until the next breakpoint (same as
+                          pressing ENTER)
+        `.replace(/^\n|[ ]+$/g, '').replace(/^[ ]{10}/gm, ''))
+      },
+      stack() { console.log((<Fiber>fiber).stackTraceString()) },
+      code() { printCode(frame.code) },
+      args() { console.log(prettyPrint(frame.$args)) },
+      scope() {
+        _.forIn(localBindings(frame.scope), (v, k) =>
+          console.log(chalk.bold(k) + ': ' + (v instanceof Deferred
+            ? chalk.gray('(unresolved)') : prettyPrint(v))))
+      },
+      eval(arg) {
+        for (let input of readInput(arg)) evalHere(input, printResult)
+      },
+      step: step('into'), next: step('over'), out: step('out'),
+      continue: step()
+    }
+    // Expressions entered at the prompt are evaluated, and the prompt is
+    // displayed again until the fiber continues
+    let first = true
+    function prompt() {
+      repl({
+        prompt: chalk.yellow('⏸>'), message: first ? message : undefined,
+        priority: 0, onBlank: () => resume(), commands
+      }, input => {
+        evalHere(input, printResult)
+        prompt()
+      })
+      first = false
+    }
+    prompt()
+  })
+}
+
+/** Returns `code` on one line, with its source location if it is known. */
+function codeString(code: Jaspr): string {
+  const printed = prettyPrint(code, false).replace(/\s+/g, ' ')
+  const location = locationOf(code)
+  return (printed.length > 60 ? printed.slice(0, 59) + '…' : printed) +
+    (location ? chalk.gray(
+      ` at ${location.filename || '?'}:${location.line}:${location.column}`) : '')
+}
+
+/** Prints `code`, followed by its source location if it is known. */
+function printCode(code: Jaspr): void {
+  const location = locationOf(code)
+  console.log(prettyPrint(code))
+  if (location) console.log(chalk.gray(
+    `at ${location.filename || '?'}:${location.line}:${location.column}`))
+}
+
+function printResult(value: Jaspr): void {
+  resolveFully(value, (err, x) =>
+    console.log(chalk.green('⇒') + ' ' + prettyPrint(x)))
+}
+
+function readInput(input: string): Jaspr[] {
+  const p = new Parser('Debugger Input')
+  p.read(input)
+  return p.getManyResults()
+}
+
+/**
+ * Returns the bindings of the `value` context of `scope` that are not
+ * top-level definitions of a module (which have qualified names).
+ */
+function localBindings(scope: Scope): {[name: string]: Jaspr | Deferred} {
+  const out: {[name: string]: Jaspr | Deferred} = {}
+  for (let level = scope.value; level; level = Object.getPrototypeOf(level)) {
+    const names = Object.keys(level)
+    if (names.some(n => n.indexOf('@') >= 0)) break
+    for (let name of names) {
+      const value = level[name]
+      if (name in out) continue
+      out[name] = value instanceof Deferred && value.value !== undefined
+        ? value.value : value
+    }
   }
+  return out
 }
 
 function loadModules(
-  env: Env, filenames: string[], runMain: boolean,
+  env: Env, filenames: string[], searchPath: string[], runMain: boolean,
   cb: (mods: Map<string, Promise<Module>>) => void
 ): void {
-  (function loadNext(localModules: Map<string, Promise<Module>>): void {
-    const filename = filenames.shift()
-    if (filename === undefined) return cb(localModules)
-    readModuleFile(filename, (err, modsrc) => {
+  const precompile = !!options.cache, cacheDir = defaultCacheDir()
+  // All modules are read concurrently, then evaluated as soon as the modules
+  // they depend on are available
+  Promise.all(filenames.map(filename =>
+    new Promise<ModuleSource>(resolve => readModuleFile(filename, (err, modsrc) => {
       if (err != null || modsrc == null) {
         console.error(chalk.redBright(`⚠☠ Failed to load module: ${filename}`))
         console.error(prettyPrint(err))
         return process.exit(1)
       }
-      (<Promise<Module>>localModules.get(primitiveModule)).then(prim => {
+      resolve(modsrc)
+    }, {cacheDir: precompile ? cacheDir : undefined})))
+  ).then(srcs => {
+    const localModules = new Map([
+      [primitiveModule, Promise.resolve(primitives(env))],
+      [debugModule, Promise.resolve(debug(env))]
+    ])
+    const resolvers: ((mod: Promise<Module>) => void)[] = []
+    const graph = new ModuleGraph(filenames)
+    srcs.forEach((modsrc, i) => {
+      graph.nodes.set(filenames[i], {
+        id: filenames[i], $module: modsrc.$module || null,
+        $version: modsrc.$version || null, status: 'loaded'
+      })
+      if (modsrc.$module != null) localModules.set(modsrc.$module,
+        new Promise<Module>(resolve => resolvers[i] = resolve))
+    })
+
+    // Modules on the command line can import each other in any order, so
+    // check for cycles that would otherwise never finish loading
+    srcs.forEach((modsrc, i) => _.forIn(modsrc.$import || {}, (imp, alias) => {
+      const to = _.findLastIndex(srcs, src => src.$module === imp.from)
+      if (imp.via === 'local' && to >= 0) graph.edges.push({
+        from: filenames[i], to: filenames[to], kind: 'import', alias, via: 'local'
+      })
+    }))
+    const [cycle] = graph.cycles()
+    if (cycle) {
+      console.error(chalk.redBright('⚠☠ Circular import: ') +
+        [...cycle, cycle[0]].join(' → '))
+      return process.exit(1)
+    }
+
+    const fileModules = new Map<string, Promise<Module>>()
+    const importGraph = new Map<string, Set<string>>()
+    const stdlibIndex = _.findIndex(srcs, src => src.$module === stdlibModule)
+    srcs.forEach((modsrc, i) => {
+      const filename = filenames[i]
+      const base = (<Promise<Module>>localModules.get(primitiveModule)).then(prim => {
         const imported = importModule(prim, primitiveModule, {})
         const stdlib = localModules.get(stdlibModule)
-        if (stdlib) return stdlib.then(stdlib =>
-          mergeScopes(env, imported, importModule(stdlib)))
-        else return imported
-      }).then(scope => {
-        const promise = evalModule(env, modsrc, {
-          filename, localModules, runMain, scope
-        })
-        if (modsrc.$module != null) localModules.set(modsrc.$module, promise)
-        loadNext(localModules)
+        if (stdlib && stdlibIndex >= 0 && stdlibIndex < i) {
+          return stdlib.then((stdlib): [Scope, (string | null)[]] => [
+            mergeScopes(env, imported, importModule(stdlib)),
+            [prim.$hash, stdlib.$hash]
+          ])
+        } else return <[Scope, (string | null)[]]>[imported, [prim.$hash]]
       })
+      const promise = base.then(([scope, hashes]) => evalModule(env, modsrc, {
+        filename, localModules, searchPath, runMain, scope, fileModules,
+        importGraph, precompile, cacheDir, checkMain: !!options.check,
+        scopeHash: _.every(hashes) ? sha256(hashes.join('\n')) : undefined
+      }))
+      if (resolvers[i]) resolvers[i](promise)
     })
-  })(new Map([[primitiveModule, Promise.resolve(primitives(env))]]))
+    cb(localModules)
+  })
 }
 
 function usage() {
@@ -173,6 +524,14 @@ Executes foo.jaspr and bar.jaspr
 [bold]{    jaspr --convert foo.jaspr > foo.json}
 
 Converts the Jaspr file foo.jaspr to the JSON file foo.json
+
+[bold]{    jaspr --deps --format dot main.jaspr > deps.dot}
+
+Writes the dependency graph of main.jaspr as a Graphviz DOT graph
+
+[bold]{    jaspr --check main.jaspr}
+
+Checks main.jaspr for undefined names and check macro failures, without running it
     `.trim()
   }, {
     header: 'Options',
@@ -187,6 +546,91 @@ Converts the Jaspr file foo.jaspr to the JSON file foo.json
       name: 'convert',
       typeLabel: '[underline]{file}',
       description: 'Jaspr file to convert to JSON (JSON is written to stdout)'
+    }, {
+      name: 'path',
+      typeLabel: '[underline]{dir}',
+      description: `
+        Directory to search for imported modules, before the directories
+        listed in the JASPR_PATH environment variable. Can be repeated
+        (--path lib --path vendor).
+      `.trim().replace(/\s+/gm, ' ')
+    }, {
+      name: 'deps',
+      description: `
+        Print the dependency graph of the source files, instead of running
+        them, and check it for circular imports
+      `.trim().replace(/\s+/gm, ' ')
+    }, {
+      name: 'check',
+      description: `
+        Load the source files without running them, and report undefined names
+        and problems found by check macros
+      `.trim().replace(/\s+/gm, ' ')
+    }, {
+      name: 'check-types',
+      description: `
+        Check the arguments and return values of every call to a function with
+        a type annotation at runtime, not just calls with literal arguments
+      `.trim().replace(/\s+/gm, ' ')
+    }, {
+      name: 'jit',
+      description: `
+        Compile the bodies of closures to JavaScript when they are called
+        (also enabled by setting JASPR_JIT)
+      `.trim().replace(/\s+/gm, ' ')
+    }, {
+      name: 'debug',
+      description: `
+        Attach the debugger, which pauses at every call to breakpoint! (from
+        the jaspr.debug module)
+      `.trim().replace(/\s+/gm, ' ')
+    }, {
+      name: 'break',
+      typeLabel: '[underline]{name|file:line}',
+      description: `
+        Attach the debugger, and pause on entry to the named function, or
+        before evaluating code on the given source line. Can be repeated
+        (--break foo --break bar).
+      `.trim().replace(/\s+/gm, ' ')
+    }, {
+      name: 'trace',
+      description: `
+        Write a JSON object to stderr for each fiber spawned, resolved, or
+        canceled, signal raised, channel message, and macro expansion. Without
+        this option, only code run while jaspr.debug.trace is true is traced.
+      `.trim().replace(/\s+/gm, ' ')
+    }, {
+      name: 'trace-file',
+      typeLabel: '[underline]{file}',
+      description: 'Write trace events to a file instead of stderr'
+    }, {
+      name: 'trace-name',
+      typeLabel: '[underline]{name}',
+      description: `
+        Only trace events in the definition with this name. Can be repeated
+        (--trace-name foo --trace-name bar).
+      `.trim().replace(/\s+/gm, ' ')
+    }, {
+      name: 'profile',
+      description: `
+        Profile the program, then print the time spent in each function and
+        write a profile that can be loaded into Chrome's developer tools
+        (script.cpuprofile, for script.jaspr)
+      `.trim().replace(/\s+/gm, ' ')
+    }, {
+      name: 'profile-file',
+      typeLabel: '[underline]{file}',
+      description: 'Profile the program, and write the profile to this file'
+    }, {
+      name: 'format',
+      typeLabel: '[underline]{format}',
+      description: 'Output format for --deps: tree (default), dot, or json'
+    }, {
+      name: 'cache',
+      description: `
+        Read and write precompiled (parsed and macroexpanded) modules in the
+        cache directory (JASPR_CACHE, or ~/.jaspr/cache by default)
+      `.trim().replace(/\s+/gm, ' ')
     }, {
       name: 'repl',
       description: 'Start a REPL even if source files are loaded'
@@ -0,0 +1,25 @@
+import {expect} from 'chai'
+import {parseOptions} from '../src/CommandLine'
+
+describe('command-line options', () => {
+  it('reads plain arguments as source files', () => {
+    expect(parseOptions(['main.jaspr', 'lib.jaspr'])).to.deep.equal({
+      src: ['main.jaspr', 'lib.jaspr']
+    })
+  })
+  it('reads one directory per --path', () => {
+    expect(parseOptions(['--path', 'lib', '-p', 'vendor', 'main.jaspr']))
+      .to.deep.equal({path: ['lib', 'vendor'], src: ['main.jaspr']})
+  })
+  it('reads one breakpoint per --break', () => {
+    expect(parseOptions(['--break', 'add3', 'main.jaspr'])).to.deep.equal({
+      break: ['add3'], src: ['main.jaspr']
+    })
+    expect(parseOptions(['--break=add3', '--break', 'main.jaspr:4', 'main.jaspr']))
+      .to.deep.equal({break: ['add3', 'main.jaspr:4'], src: ['main.jaspr']})
+  })
+  it('reads one name per --trace-name', () => {
+    expect(parseOptions(['--trace', '--trace-name', 'fib', 'main.jaspr']))
+      .to.deep.equal({trace: true, 'trace-name': ['fib'], src: ['main.jaspr']})
+  })
+})
@@ -0,0 +1,105 @@
+import {withEnv} from './Helpers'
+import {Jaspr, JasprObject, Callback, magicSymbol} from '../src/Jaspr'
+import {Env, Scope, emptyScope, DynamicMap} from '../src/Interpreter'
+import * as I from '../src/Interpreter'
+import {Root} from '../src/Fiber'
+import Compiler, {compile} from '../src/Compiler'
+import {NativeSyncFn, NativeAsyncFn} from '../src/NativeFn'
+import Parser from '../src/Parser'
+import * as Names from '../src/ReservedNames'
+import * as _ from 'lodash'
+import {expect} from 'chai'
+
+function parse(str: string): Jaspr {
+  const parser = new Parser('<test>')
+  parser.read(str)
+  return parser.getOneResult()
+}
+
+/**
+ * Returns a scope containing `id`, `add`, `later` (which returns its argument
+ * asynchronously), and `value`.
+ */
+function scope(env: Env, value: JasprObject = {}): Scope {
+  const id = new NativeSyncFn(function(x) { return x }).toClosure(env)
+  const add = new NativeSyncFn(function(a, b) { return <number>a + <number>b }).toClosure(env)
+  const later = new NativeAsyncFn(function([x], cb) {
+    setImmediate(() => cb(null, x))
+  }).toClosure(env)
+  return _.create(emptyScope, {value: Object.assign({id, add, later}, value)})
+}
+
+/** Calls a closure with the body `code`, with compilation turned on */
+function callCompiled(
+  env: Env,
+  code: string,
+  args: Jaspr[],
+  cb: Callback,
+  dynamics?: DynamicMap,
+  value?: JasprObject
+): void {
+  (<Root>env).compiler = new Compiler()
+  const fn = {
+    [env.closureName]: scope(env, value),
+    [Names.code]: parse(code),
+    [magicSymbol]: I.closureMarker
+  }
+  I.waitFor(I.call(env, fn, args, dynamics), cb)
+}
+
+describe('the compiler', () => {
+  it('compiles names, calls, and $args', withEnv((env, should) => {
+    callCompiled(env, '(add (0 $args) (id 2))', [40], should.equal(42))
+  }))
+  it('compiles $if and $then', withEnv((env, should) => {
+    callCompiled(env, `(${Names.if_} (0 $args) 1 2)`, [true], should.equal(1))
+    callCompiled(env, `(${Names.if_} (0 $args) 1 2)`, [false], should.equal(2))
+    callCompiled(env, `(${Names.then} (id 1) (id 2))`, [], should.equal(2))
+  }))
+  it('compiles quoted values', withEnv((env, should) => {
+    callCompiled(env, `(id '(a b c))`, [], should.equal(['a', 'b', 'c']))
+  }))
+  it('compiles lets', withEnv((env, should) => {
+    callCompiled(env, `((${Names.closure} {x: (add 1 2)} (add x x) {}))`,
+      [], should.equal(6))
+  }))
+  it('waits for deferred values', withEnv((env, should) => {
+    callCompiled(env, '(add (later 1) (later 2))', [], should.equal(3))
+    callCompiled(env, `(${Names.if_} (later false) 1 (later 2))`, [], should.equal(2))
+    callCompiled(env, '((later id) 3)', [], should.equal(3))
+  }))
+  it('does not repeat side effects while waiting', withEnv((env, should) => {
+    const effects: Jaspr[] = []
+    const record = new NativeSyncFn(function(x) {
+      effects.push(x)
+      return x
+    }).toClosure(env)
+    callCompiled(env,
+      `(${Names.then} (record 1)
+         (add (record 2) (add (later (record 3)) ((later id) (record 4)))))`,
+      [], should.pass(result => {
+        expect(result).to.equal(9)
+        expect(effects).to.deep.equal([1, 2, 3, 4])
+      }), undefined, {record})
+  }))
+  it('interprets expressions that it does not compile', withEnv((env, should) => {
+    callCompiled(env, `{a: (${Names.arrayMake} id 3)}`, [], should.equal({a: [0, 1, 2]}))
+  }))
+  it('raises signals at source locations', withEnv((env, should) => {
+    should.raise('NoBinding', (dynamics, cb) =>
+      callCompiled(env, '(id\n  (id nope))', [], cb, dynamics))
+    const handler = new NativeSyncFn(function(err) {
+      return (<any>err).at.line
+    }).toClosure(env)
+    callCompiled(env, '(id\n  (id nope))', [], should.equal(2),
+      {key: env.signalHandlerVar, value: handler})
+  }))
+  it('caches compiled code', () => {
+    const compiler = new Compiler(), code = parse('(id 1)')
+    const fn = compiler.compile(code)
+    expect(fn).to.be.a('function')
+    expect(compiler.compile(code)).to.equal(fn)
+    expect(compiler.compile('id')).to.be.null
+    expect(compile(42)).to.be.null
+  })
+})
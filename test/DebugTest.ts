@@ -0,0 +1,254 @@
+import {withEnv, Should} from './Helpers'
+import {Jaspr, JasprObject, Callback, magicSymbol} from '../src/Jaspr'
+import {Env, Scope, DynamicMap, emptyScope} from '../src/Interpreter'
+import * as I from '../src/Interpreter'
+import {Root, Branch} from '../src/Fiber'
+import debug from '../src/JasprDebug'
+import Debugger, {Pause, StepMode} from '../src/Debugger'
+import {NativeSyncFn, NativeAsyncFn} from '../src/NativeFn'
+import {Tracer, TraceEvent} from '../src/Trace'
+import Profiler from '../src/Profiler'
+import Parser from '../src/Parser'
+import * as Names from '../src/ReservedNames'
+import * as _ from 'lodash'
+import {expect} from 'chai'
+
+function evalExpr(env: Env, code: Jaspr, cb: Callback, dyn?: DynamicMap): void {
+  const scope: Scope = _.create(emptyScope, {value: debug(env).value})
+  I.waitFor(I.evalExpr(env, scope, [], dyn, code), cb)
+}
+
+describe('jaspr.debug', () => {
+  it('lists and describes live fibers', withEnv((env, should) => {
+    const fiber = (<Root>env).defer(() => ({action: 'eval', code: ['foo'], name: 'bar'}))
+    evalExpr(env, ['fibers!'], should.pass(ids => expect(ids).to.include(fiber.id)))
+    evalExpr(env, ['fiberInfo!', fiber.id], should.equal({
+      id: fiber.id, action: 'eval', name: 'bar', code: ['foo'],
+      parent: null, waitingOn: null
+    }))
+    evalExpr(env, ['fiberDescription!', fiber.id],
+      should.equal('eval (in bar): [foo]'))
+    fiber.resolve(null)
+    evalExpr(env, ['fibers!'], should.pass(ids => expect(ids).not.to.include(fiber.id)))
+  }))
+  it('cancels the branch of a fiber', withEnv((env, should) => {
+    const branch = new Branch(<Root>env, <Root>env)
+    const fiber = branch.defer()
+    evalExpr(env, ['fiberCancel!', fiber.id], should.pass(x => {
+      expect(x).to.be.true
+      expect(branch.isCanceled()).to.be.true
+      expect((<Root>env).liveFibers()).not.to.include(fiber)
+    }))
+  }))
+  it('forgets the fibers of canceled branches', withEnv((env, should) => {
+    const root = <Root>env, before = root.fibers.size
+    function choose(n: number, cb: Callback): void {
+      if (n === 0) return cb(null)
+      const junction = env.junction([
+        (branch, cb) => branch.defer(),
+        (branch, cb) => cb(n)
+      ])
+      junction.await(() => choose(n - 1, cb))
+    }
+    choose(300, should.pass(() => {
+      expect(root.fibers.size).to.equal(before)
+    }))
+  }))
+  it('raises an error for fibers that are not live',withEnv((env, should) => {
+    should.raise('NoKey', (dyn, cb) => evalExpr(env, ['fiberInfo!', -1], cb, dyn))
+    const fiber = (<Root>env).defer()
+    should.raise('BadArgs', (dyn, cb) =>
+      evalExpr(env, ['fiberCancel!', fiber.id], cb, dyn))
+  }))
+})
+
+describe('the debugger', () => {
+  function parse(str: string): Jaspr {
+    const parser = new Parser('<test>')
+    parser.read(str)
+    return parser.getOneResult()
+  }
+  /**
+   * Attaches a debugger to `env` that records each pause, then continues with
+   * the next step in `steps` (or without stepping, once `steps` runs out).
+   */
+  function attach(env: Env, steps: StepMode[] = []): Pause[] {
+    const pauses: Pause[] = []
+    ;(<Root>env).debugHook = new Debugger((pause, resume) => {
+      pauses.push(pause)
+      setImmediate(() => resume(steps.shift()))
+    })
+    return pauses
+  }
+  function scope(env: Env, value: JasprObject = {}): Scope {
+    const id = new NativeSyncFn(function(x) { return x }).toClosure(env)
+    return _.create(emptyScope, {value: Object.assign({id}, debug(env).value, value)})
+  }
+
+  it('pauses at calls to breakpoint!', withEnv((env, should) => {
+    const pauses = attach(env)
+    const code = parse('(id (breakpoint!))')
+    I.waitFor(I.evalExpr(env, scope(env), [], undefined, code), should.pass(x => {
+      expect(x).to.be.null
+      expect(pauses).to.have.length(1)
+      expect(pauses[0].reason).to.equal('breakpoint')
+      expect(pauses[0].frame.code).to.equal((<Jaspr[]>code)[1])
+    }))
+  }))
+  it('pauses on entry to a named function', withEnv((env, should) => {
+    const pauses = attach(env)
+    const body = parse('(id 1)'), s = scope(env)
+    s.value.f = {
+      [env.closureName]: s, [Names.code]: body, [magicSymbol]: I.closureMarker
+    }
+    ;(<Debugger>(<Root>env).debugHook).breakAt('f')
+    I.waitFor(I.evalExpr(env, s, [], undefined, parse('(f 42)')), should.pass(x => {
+      expect(x).to.equal(1)
+      expect(pauses).to.have.length(1)
+      expect(pauses[0]).to.include({reason: 'function', fn: 'f'})
+      expect(pauses[0].frame.code).to.equal(body)
+      expect(pauses[0].frame.$args).to.deep.equal([42])
+    }))
+  }))
+  it('pauses at a source line, then steps into and over', withEnv((env, should) => {
+    const pauses = attach(env, ['into', 'over'])
+    ;(<Debugger>(<Root>env).debugHook).breakAt('<test>:2')
+    const code = <Jaspr[]>parse(`(${Names.then}\n  (id (id 1))\n  (id 2))`)
+    I.waitFor(I.evalExpr(env, scope(env), [], undefined, code), should.pass(x => {
+      expect(x).to.equal(2)
+      expect(pauses.map(p => p.reason)).to.deep.equal(['line', 'step', 'step'])
+      expect(pauses.map(p => p.frame.code)).to.deep.equal(
+        [code[1], (<Jaspr[]>code[1])[1], code[2]])
+    }))
+  }))
+})
+
+describe('tracing', () => {
+  /** Collects the events written by `env`'s tracer */
+  function collect(env: Env, enabled: boolean): TraceEvent[] {
+    const {tracer} = <Root>env, events: TraceEvent[] = []
+    tracer.enabled = enabled
+    tracer.write = line => events.push(JSON.parse(line))
+    return events
+  }
+  function scope(env: Env): Scope {
+    const later = new NativeAsyncFn(function([x], cb) {
+      setImmediate(() => cb(null, x))
+    }).toClosure(env)
+    return _.create(emptyScope, {value: Object.assign({later}, debug(env).value)})
+  }
+  const eventTypes = (events: TraceEvent[]) => events.map(e => e.event)
+
+  it('traces every fiber when enabled', withEnv((env, should) => {
+    const events = collect(env, true)
+    I.waitFor(I.evalExpr(env, scope(env), [], undefined, ['later', 1]),
+      should.pass(x => {
+        expect(x).to.equal(1)
+        expect(eventTypes(events)).to.deep.equal(['spawn', 'resolve'])
+        expect(events[0]).to.include({action: 'external'})
+        expect(events[1]).to.include({fiber: events[0].fiber, value: '1'})
+        expect(events[0].t).to.be.a('number')
+      }))
+  }))
+  it('traces fibers spawned while jaspr.debug.trace is true', withEnv((env, should) => {
+    const events = collect(env, false)
+    const code = [
+      '$dynamicLet', 'trace', true,
+      ['later', ['$dynamicLet', 'trace', false, ['later', 1]]]]
+    I.waitFor(I.evalExpr(env, scope(env), [], undefined, code), should.pass(x => {
+      expect(x).to.equal(1)
+      // The outer $dynamicLet's fiber and one call to later are traced; the
+      // inner $dynamicLet's fiber is spawned, but its contents are not traced
+      expect(eventTypes(events)).to.deep.equal(
+        ['spawn', 'spawn', 'spawn', 'resolve', 'resolve', 'resolve'])
+    }))
+  }))
+  it('traces signals', withEnv((env, should) => {
+    const events = collect(env, true)
+    should.raise('NativeError', (dyn, cb) => I.waitFor(
+      I.raise(env, dyn, {err: 'NativeError', why: 'test'}), x => {
+        cb(x)
+        should.pass(() => {
+          const signals = events.filter(e => e.event === 'signal')
+          expect(signals).to.have.length(1)
+          expect(signals[0]).to.include({
+            fiber: null, signal: '{err:NativeError why:test}'
+          })
+        })(null)
+      }))
+  }))
+  it('filters events by definition name', () => {
+    const tracer = new Tracer()
+    tracer.names.add('foo')
+    tracer.names.add('bar.baz')
+    expect(tracer.matches('foo')).to.be.true
+    expect(tracer.matches('mod.foo@1.0')).to.be.true
+    expect(tracer.matches('bar.baz@')).to.be.true
+    expect(tracer.matches('qux.baz@')).to.be.false
+    expect(tracer.matches(null)).to.be.false
+  })
+})
+
+describe('the profiler', () => {
+  function parse(str: string): Jaspr {
+    const parser = new Parser('<test>')
+    parser.read(str)
+    return parser.getOneResult()
+  }
+  /**
+   * Profiles `code`, which can call `id`, `later`, and a closure `f`, then
+   * checks its result and profile with `assertions`.
+   */
+  function profile(
+    env: Env,
+    should: Should<Callback>,
+    code: string,
+    assertions: (result: Jaspr, profiler: Profiler) => void
+  ): void {
+    const profiler = (<Root>env).profiler = new Profiler(0)
+    const cb = should.pass(x => assertions(x, profiler))
+    const id = new NativeSyncFn(function(x) { return x }).toClosure(env)
+    const later = new NativeAsyncFn(function([x], cb) {
+      setImmediate(() => cb(null, x))
+    }).toClosure(env)
+    const s: Scope = _.create(emptyScope, {value: {id, later}})
+    s.value.f = {
+      [env.closureName]: s, [Names.code]: parse('(id (0 $args))'),
+      [Names.arity]: {min: 1, max: 1, name: 'f'}, [magicSymbol]: I.closureMarker
+    }
+    I.waitFor(I.evalExpr(env, s, [], undefined, parse(code)), x => {
+      profiler.stop()
+      cb(x)
+    })
+  }
+
+  it('counts calls and samples time in named closures', withEnv((env, should) => {
+    profile(env, should, '(f (f (f 1)))', (x, profiler) => {
+      expect(x).to.equal(1)
+      const f = profiler.entries().find(e => e.name === 'f')
+      expect(f).to.exist
+      expect(f).to.include({calls: 3})
+      expect((<any>f).location).to.include({filename: '<test>', line: 1})
+      expect(profiler.phaseTime.eval).to.be.above(0)
+      expect(profiler.report()).to.match(/\bf \(<test>:1:1\)/)
+    })
+  }))
+  it('counts fibers by action', withEnv((env, should) => {
+    profile(env, should, '(id (later (later 1)))', (x, profiler) => {
+      expect(profiler.fibers.get('external')).to.equal(2)
+      expect(profiler.report()).to.contain('Fibers created: ')
+    })
+  }))
+  it('creates Chrome CPU profiles', withEnv((env, should) => {
+    profile(env, should, '(f (later (f 1)))', (x, profiler) => {
+      const cpuProfile = <any>profiler.toCpuProfile()
+      const ids = new Set(cpuProfile.nodes.map((n: any) => n.id))
+      expect(cpuProfile.nodes[0].callFrame.functionName).to.equal('(root)')
+      expect(cpuProfile.samples).to.have.length(cpuProfile.timeDeltas.length)
+      for (let sample of cpuProfile.samples) expect(ids).to.include(sample)
+      const f = cpuProfile.nodes.find((n: any) => n.callFrame.functionName === 'f')
+      expect(f.callFrame).to.include({url: '<test>', lineNumber: 0, columnNumber: 0})
+      expect(cpuProfile.endTime).to.be.at.least(cpuProfile.startTime)
+    })
+  }))
+})
@@ -120,11 +120,12 @@ export class TestCase implements Should<Callback> {
 export const withEnv = (body: (env: Env, should: TestCase) => void) => () =>
   new Promise<void>((resolve, reject) => {
     let errored = false
-    const root = new Root((root, err, raisedBy, cb) => {
+    const root = new Root((root, err, raisedIn, cb, raisedBy) => {
       if (errored) return cb(null)
       errored = true
       reject(new assert.AssertionError({
-        message: `\nUnhandled signal raised:\n\n${prettyPrint(err, false)}`
+        message: `\nUnhandled signal raised:\n\n${prettyPrint(err, false)}` +
+          (raisedBy ? `\n\nStack trace:\n${raisedBy.stackTraceString(false)}` : '')
       }))
       root.cancel()
     })
@@ -1,6 +1,6 @@
 import {withEnv} from './Helpers'
 import {
-  Jaspr, JasprObject, JsonObject, resolveFully, Deferred, Callback
+  Jaspr, JasprObject, JasprError, JsonObject, resolveFully, Deferred, Callback, magicSymbol
 } from '../src/Jaspr'
 import {
   Env, Scope, emptyScope, makeDynamic, isClosure, evalDefs, DynamicMap
@@ -8,6 +8,11 @@ import {
 import * as I from '../src/Interpreter'
 import * as Names from '../src/ReservedNames'
 import {NativeSyncFn, NativeAsyncFn} from '../src/NativeFn'
+import Chan from '../src/Chan'
+import prim from '../src/JasprPrimitive'
+import {Root, Fiber} from '../src/Fiber'
+import Parser from '../src/Parser'
+import {locationOf} from '../src/SourceLocation'
 import * as _ from 'lodash'
 import {expect} from 'chai'
 
@@ -123,6 +128,27 @@ describe('eval', () => {
                                  ['', 'foo'],
                                  ['', 'bar'],
                                  ['', 'baz']], should.equal('bar'))))
+    it('raises BadArgs when called with the wrong number of arguments',
+      withEnv((env, should) => {
+        const scope = evalDefs(env, emptyScope, [], undefined, {
+          f: [Names.closure, {}, 91, {[Names.arity]: {min: 1, max: 1}}],
+          g: [Names.closure, {}, 92, {[Names.arity]: {min: 1, max: null}}]
+        }, {$module: 'arity', $version: '1.0'})
+        const resume: DynamicMap = {
+          key: env.signalHandlerVar,
+          value: new NativeSyncFn(function(err) { return err }).toClosure(env)
+        }
+        evalExpr(env, scope, ['f', 1], should.equal(91))
+        evalExpr(env, scope, ['g', 1, 2, 3], should.equal(92))
+        evalExpr(env, scope, ['f', 1, 2], should.pass(err =>
+          expect(err).to.deep.include({
+            err: 'BadArgs', why: 'expected 1 argument, got 2',
+            fn: 'arity.f@1.0', expected: {min: 1, max: 1}, actual: 2
+          })), resume)
+        evalExpr(env, scope, ['g'], should.pass(err =>
+          expect(err).to.include({why: 'expected at least 1 argument, got 0'})),
+          resume)
+      }))
   })
   describe('supports magic form', () => {
     it('$if', withEnv((env, should) => {
@@ -309,6 +335,86 @@ describe('macroexpand', () => {
   it('recursively expands arguments', withEnv((env, should) =>
     macroExpand(env, macros(_.assign(add1(env), macroArrayAdd1(env))),
       ['macroArrayAdd1', 1, 2], should.equal([[], 2, 3]))))
+  describe('check macros', () => {
+    function checked(
+      check: (env: Env) => JasprObject,
+      code: Jaspr
+    ): Promise<{expanded: Jaspr, diagnostics: I.Diagnostic[]}> {
+      return new Promise((resolve, reject) => {
+        const diagnostics: I.Diagnostic[] = []
+        const env = new Root(
+          (root, err) => reject(err), (root, d) => diagnostics.push(d))
+        const scope = _.create(emptyScope, {check: check(env)})
+        macroExpand(env, scope, code, expanded =>
+          setTimeout(() => resolve({expanded, diagnostics}), 10))
+      })
+    }
+    const oneArg = (env: Env) => ({
+      f: new NativeSyncFn(function(...args) {
+        return args.length === 1 ? null
+          : {level: 'error', why: 'f takes 1 argument'}
+      }).toClosure(env)
+    })
+    it('calls check macros with unexpanded arguments', () =>
+      checked(oneArg, ['f', 1, 2]).then(({expanded, diagnostics}) => {
+        expect(expanded).to.deep.equal(['f', 1, 2])
+        expect(diagnostics).to.deep.equal([{
+          level: 'error', why: 'f takes 1 argument',
+          fn: 'f', code: ['f', 1, 2], name: null
+        }])
+      }))
+    it('checks nested calls', () =>
+      checked(oneArg, [[], ['f', 1], ['f']]).then(({diagnostics}) =>
+        expect(diagnostics.map(d => d.code)).to.deep.equal([['f']])))
+    it('reports strings as warnings', () =>
+      checked(env => ({
+        f: new NativeSyncFn(function() { return ['bad', 'worse'] })
+             .toClosure(env)
+      }), ['f']).then(({diagnostics}) =>
+        expect(diagnostics.map(d => [d.level, d.why])).to.deep.equal([
+          ['warning', 'bad'], ['warning', 'worse']
+        ])))
+    it('reports signals raised by check macros as errors', () =>
+      checked(env => ({f: closure(env, ['nope'])}), ['f'])
+        .then(({expanded, diagnostics}) => {
+          expect(expanded).to.deep.equal(['f'])
+          expect(diagnostics).to.have.length(1)
+            .and.nested.property('[0].why').equal('check macro raised a signal')
+        }))
+  })
+  describe('type annotations', () => {
+    function typed(env: Env, value: JasprObject): Scope {
+      return _.create(emptyScope, {value, type: {
+        add: {args: ['number', 'number'], returns: 'number'},
+        bad: {returns: 'number'}
+      }})
+    }
+    const add = (env: Env) => ({
+      add: new NativeSyncFn(function(a, b) { return <any>a + <any>b }).toClosure(env),
+      bad: new NativeSyncFn(function() { return 'oops' }).toClosure(env)
+    })
+    it('checks literal arguments during macro expansion', withEnv((env, should) => {
+      should.raise('BadArgs', (dyn, cb) =>
+        macroExpand(env, typed(env, add(env)), ['add', 1, ['', 'x']], cb, dyn))
+      should.raise('BadArgs', (dyn, cb) =>
+        macroExpand(env, typed(env, add(env)), ['add', 1], cb, dyn))
+      macroExpand(env, typed(env, add(env)), ['add', 1, 'x'],
+        should.equal(['add', 1, 'x']))
+    }))
+    it('does not check local bindings with the same name', withEnv((env, should) =>
+      macroExpand(env, typed(env, add(env)),
+        [Names.closure, {add: 1}, ['add', ['', 'x']], {}],
+        should.equal([Names.closure, {add: 1}, ['add', ['', 'x']], {}]))))
+    it('checks all calls at runtime if checkTypes is set', withEnv((env, should) => {
+      (<Root>env).checkTypes = true
+      const scope = typed(env, _.assign(add(env), {x: 'x', one: 1}))
+      evalExpr(env, scope, ['add', 'one', 'one'], should.equal(2))
+      should.raise('BadArgs', (dyn, cb) =>
+        evalExpr(env, scope, ['add', 'one', 'x'], cb, dyn))
+      should.raise('BadArgs', (dyn, cb) =>
+        evalExpr(env, scope, ['bad'], cb, dyn))
+    }))
+  })
   describe('syntax quote', () => {
     it('becomes a normal quote macro when there are no unquotes',
       withEnv((env, should) => {
@@ -441,6 +547,135 @@ const fnDefs = _.assign({}, letDefs, {
     [sq, ['$closure', {}, ['let', {args: '$args'}, [uq, [0, '$args']]], {}]], {}]
 })
 
+describe('source locations', () => {
+  function parse(str: string): Jaspr {
+    const parser = new Parser('<test>')
+    parser.read(str)
+    return parser.getOneResult()
+  }
+  function recordErrors(env: Env, errors: Jaspr[]): DynamicMap {
+    const handler = new NativeSyncFn(function(err) {
+      errors.push(err)
+      return 0
+    })
+    return {key: env.signalHandlerVar, value: handler.toClosure(env)}
+  }
+  it('adds the location of the innermost code to raised errors',
+    withEnv((env, should) => {
+      const errors: Jaspr[] = []
+      evalExpr(env, values(add1(env)), parse('(add1\n  (1 2))'), should.pass(x => {
+        expect(x).to.equal(1)
+        expect(errors).to.have.length(1)
+        expect(errors[0]).to.have.property('err').equal('BadArgs')
+        expect(errors[0]).to.have.property('at')
+          .deep.equal({filename: '<test>', line: 2, column: 3})
+      }), recordErrors(env, errors))
+    }))
+  it('keeps locations through macro expansion', withEnv((env, should) => {
+    const scope = _.create(emptyScope, {value: add1(env), macro: macroAdd1(env)})
+    macroExpand(env, scope, parse('\n(macroAdd1 2)'), should.pass(x => {
+      expect(x).to.deep.equal(['add1', 2])
+      expect(locationOf(x)).to.deep.equal({filename: '<test>', line: 2, column: 1})
+    }))
+  }))
+})
+
+describe('stack traces', () => {
+  it('record the fibers that led to an unhandled signal', () =>
+    new Promise<void>((resolve, reject) => {
+      const root = new Root((root, err, raisedIn, cb, raisedBy) => {
+        try {
+          expect(raisedBy).to.be.an.instanceof(Fiber)
+          const trace = (<Fiber>raisedBy).stackTrace().map(f => f.props())
+          expect(trace).to.have.length(2)
+          expect(trace[0]).to.include({action: 'external', name: 'foo'})
+          expect(trace[1]).to.include({action: 'eval', name: 'foo'})
+          expect((<Fiber>raisedBy).stackTraceString(false)).to.equal(
+            'external (in foo)\n└ eval (in foo) [[“” 1] 2]')
+          resolve()
+        } catch (e) { reject(e) }
+        root.cancel()
+      })
+      const later = new NativeAsyncFn(function ([], cb) {
+        setImmediate(() => cb(null, 2))
+      }).toClosure(root)
+      I.evalExpr(root, values({later}), [], {key: root.nameVar, value: 'foo'},
+        [1, ['later']])
+    }))
+})
+
+describe('debugging', () => {
+  it('records the frames and dynamics that raised an unhandled signal', () =>
+    new Promise<void>((resolve, reject) => {
+      const parser = new Parser('<test>')
+      parser.read('(id\n  (fail 1))')
+      const code = <Jaspr[]>parser.getOneResult()
+      const dynamics = {key: makeDynamic(null), value: 'bar'}
+      const id = new NativeSyncFn(function(x) { return x })
+      const fail = new NativeSyncFn(function() { throw {err: 'Oops'} })
+      let scope: Scope
+      const root = new Root((root, err, raisedIn, cb, raisedBy) => {
+        try {
+          const {frame, dynamics: raisedDynamics} = (<Fiber>raisedBy).props()
+          expect(frame).to.include({code: code[1], scope, depth: 1})
+          expect((<I.Frame>frame).$args).to.deep.equal(['baz'])
+          expect((<I.Frame>frame).parent).to.include({code, depth: 0})
+          expect(raisedDynamics).to.equal(dynamics)
+          resolve()
+        } catch (e) { reject(e) }
+        root.cancel()
+      })
+      scope = values({id: id.toClosure(root), fail: fail.toClosure(root)})
+      I.evalExpr(root, scope, ['baz'], dynamics, code)
+    }))
+  it('redefines a name in the scope that defines it', () => {
+    const outer = _.create(emptyScope, {
+      value: {a: 1, 'm.a': 1, 'm.a@1.0': 1, b: 1},
+      qualified: {a: 'm.a@1.0'}
+    })
+    const inner = _.create(outer, {value: Object.create(outer.value)})
+    expect(I.redefine(inner, 'a', 2)).to.be.true
+    expect(outer.value).to.deep.equal({a: 2, 'm.a': 2, 'm.a@1.0': 2, b: 1})
+    expect(inner.value.a).to.equal(2)
+    expect(I.redefine(inner, 'c', 2)).to.be.false
+  })
+})
+
+describe('deadlock detection', () => {
+  it('lists blocked fibers and the channels they wait on', withEnv(env => {
+    const root = <Root>env
+    expect(root.deadlock()).to.be.null
+    const chan = Chan.make(), recv = prim(env).value['chanRecv!']
+    const magic = <Chan>(<any>chan)[magicSymbol]
+    const result = I.evalExpr(env, values({recv, chan}), [], undefined, ['recv', 'chan'])
+    expect(result).to.be.an.instanceof(Fiber)
+    const signal = root.deadlock()
+    expect(signal).to.have.property('err').equal('Deadlock')
+    expect(signal).to.have.property('fibers').deep.equal([{
+      id: (<Fiber>result).id,
+      description: (<Fiber>result).frameString(false),
+      waitingOn: null,
+      chans: [magic.id]
+    }])
+    magic.close()
+    expect(root.deadlock()).to.be.null
+  }))
+  it('lists the fibers that blocked fibers wait on', withEnv(env => {
+    const root = <Root>env
+    const id = new NativeSyncFn(function(x) { return x }).toClosure(env)
+    // a is computed by a call that waits on b, and b waits on that call
+    const scope = evalDefs(env, values({id}), [], undefined, {
+      a: ['id', 'b'], b: 'a'
+    })
+    const call = <Fiber>scope.value.a
+    expect(call).to.be.an.instanceof(Fiber)
+    const signal = <JasprError>root.deadlock()
+    const [a, b, x] = <JasprObject[]>signal.fibers
+    expect(x.id).to.equal(call.id)
+    expect([a, b, x].map(f => f.waitingOn)).to.deep.equal([x.id, x.id, b.id])
+  }))
+})
+
 describe('evalDefs', () => {
   it('evaluates literal variables', withEnv(env => {
     const scope = evalDefs(env, emptyScope, [], undefined, {a: 1, b: 2})
@@ -0,0 +1,54 @@
+import {expect} from 'chai'
+import {resolve} from 'path'
+import {readModuleGraph} from '../src/ModuleGraph'
+
+const modules = (filename: string) => resolve('test/modules', filename)
+
+describe('module graphs', () => {
+  it('follows file imports', () =>
+    readModuleGraph([modules('imports-reexports.jaspr')]).then(graph => {
+      expect(graph.loadOrder()).to.deep.equal([
+        modules('renamed-exports.jaspr'),
+        modules('reexports.jaspr'),
+        modules('imports-reexports.jaspr')
+      ])
+      expect(graph.dependencies(modules('reexports.jaspr'))).to.deep.equal([{
+        from: modules('reexports.jaspr'), to: modules('renamed-exports.jaspr'),
+        kind: 'import', alias: 'renamed', via: 'file'
+      }])
+    }))
+  it('follows local imports through the search path', () =>
+    readModuleGraph([modules('imports-versions.jaspr')], {
+      searchPath: ['test/modules/path']
+    }).then(graph => {
+      expect(graph.dependencies(modules('imports-versions.jaspr'))
+        .map(e => e.to)).to.deep.equal([
+          modules('path/jaspr-tests/versioned.jaspr'),
+          modules('path/jaspr-tests/versioned@2.0.1.jaspr')
+        ])
+    }))
+  it('records includes', () =>
+    readModuleGraph([modules('has-includes.jaspr')]).then(graph => {
+      expect(graph.nodes.get(modules('included.jaspr')))
+        .to.have.property('status').equal('included')
+      expect(graph.dependencies(modules('has-includes.jaspr')))
+        .to.have.length(1).and.nested.property('[0].kind').equal('include')
+    }))
+  it('marks missing local imports', () =>
+    readModuleGraph([modules('imports-searched.jaspr')]).then(graph => {
+      expect(graph.nodes.get('jaspr-tests.searched'))
+        .to.have.property('status').equal('missing')
+    }))
+  it('detects circular imports', () =>
+    readModuleGraph([modules('import-cycle-a.jaspr')]).then(graph => {
+      expect(graph.cycles()).to.deep.equal([[
+        modules('import-cycle-a.jaspr'), modules('import-cycle-b.jaspr')
+      ]])
+      expect(() => graph.loadOrder()).to.throw()
+      expect(graph.toTree(modules('.'))).to.equal([
+        'import-cycle-a.jaspr (jaspr-tests.import-cycle-a@1.0)',
+        '└─ b: import-cycle-b.jaspr (jaspr-tests.import-cycle-b@1.0)',
+        '   └─ a: import-cycle-a.jaspr (jaspr-tests.import-cycle-a@1.0) (circular)'
+      ].join('\n'))
+    }))
+})
@@ -1,48 +1,85 @@
 import {AssertionError} from 'assert'
 import {expect} from 'chai'
-import {Jaspr, JasprError, resolveFully, toString, magicSymbol} from '../src/Jaspr'
-import {Root, Branch} from '../src/Fiber'
+import {
+  Jaspr, JasprObject, JasprError, resolveFully, toString, magicSymbol
+} from '../src/Jaspr'
+import {Root, Branch, DiagnosticHandler} from '../src/Fiber'
 import prettyPrint from '../src/PrettyPrint'
 import * as Names from '../src/ReservedNames'
 import prim from '../src/JasprPrimitive'
 import {
-  readModuleFile, evalModule, importModule, ModuleSource, Module
+  readModuleFile, evalModule, importModule, ModuleSource, Module,
+  EvalModuleOptions
 } from '../src/Module'
+import {isAbsolute, join} from 'path'
+import {createServer, Server} from 'http'
+import {
+  readFile, readFileSync, readdirSync, writeFileSync, mkdtempSync, existsSync
+} from 'fs'
+import {compiledPath, sha256} from '../src/Cache'
+import {tmpdir} from 'os'
+import {execFileSync} from 'child_process'
 
-function loadModule(
+function evalTestModule(
   filename: string,
-  importedAs: string | null,
-  assertions: (module: Module) => void
-): () => Promise<void> {
-  return () => new Promise((resolve, reject) => {
-    function fail(msg: string, err: Jaspr, raisedBy?: Branch): void {
+  options: Partial<EvalModuleOptions> = {},
+  onDiagnostic?: DiagnosticHandler
+): Promise<Module> {
+  return new Promise((resolve, reject) => {
+    const env = new Root((root, err, raisedIn, cb, raisedBy) => {
       reject(new AssertionError({
-        message: `\n${msg}: ${prettyPrint(err, false)}`/* +
-          (raisedBy ? `\n\nStack trace:\n${raisedBy.stackTraceString(false)}` : '') */
+        message: `\nerror evaluating module: ${prettyPrint(err, false)}` +
+          (raisedBy ? `\n\nStack trace:\n${raisedBy.stackTraceString(false)}` : '')
       }))
-    }
-    const env = new Root((root, err, raisedBy, cb) => {
-      fail('error evaluating module', err, raisedBy)
       root.cancel()
-    })
-    readModuleFile(`test/modules/${filename}`, (err, modsrc) => {
-      if (err) return fail('error loading module', err)
-      evalModule(env, <ModuleSource>modsrc, {
-        filename, localModules: new Map([
+    }, onDiagnostic)
+    const path = isAbsolute(filename) ? filename : `test/modules/${filename}`
+    readModuleFile(path, (err, modsrc) => {
+      if (err) return reject(err)
+      evalModule(env, <ModuleSource>modsrc, Object.assign({
+        filename: path, searchPath: ['test/modules/path'], localModules: new Map([
           [Names.primitiveModule, Promise.resolve(prim(env))]
         ])
-      }).then(
-        mod => resolveFully(importedAs ? importModule(mod, importedAs) : mod,
-          (err, mod) => {
-            try { assertions(<Module>mod) }
-            catch (ex) { reject(ex); return }
-            resolve()
-          }),
-        err => fail('error loading module', err))
+      }, options)).then(resolve, reject)
     })
   })
 }
 
+function loadModule(
+  filename: string,
+  importedAs: string | null,
+  assertions: (module: Module) => void,
+  options?: Partial<EvalModuleOptions>
+): () => Promise<void> {
+  return () => evalTestModule(filename, options).then(
+    mod => new Promise<void>((resolve, reject) =>
+      resolveFully(importedAs ? importModule(mod, importedAs) : mod,
+        (err, mod) => {
+          try { assertions(<Module>mod) }
+          catch (ex) { reject(ex); return }
+          resolve()
+        })),
+    err => {
+      if (err instanceof Error) throw err
+      throw new AssertionError({
+        message: `\nerror loading module: ${prettyPrint(err, false)}`
+      })
+    })
+}
+
+function failModule(
+  filename: string,
+  assertions: (err: JasprError) => void,
+  options?: Partial<EvalModuleOptions>
+): () => Promise<void> {
+  return () => evalTestModule(filename, options).then(
+    mod => { throw new AssertionError({message: 'module loaded without error'}) },
+    err => {
+      if (err instanceof Error) throw err
+      assertions(err)
+    })
+}
+
 describe('the module loader', () => {
   it('can load a module', loadModule('hello-world.jaspr', null, mod => {
     expect(mod.$module).to.equal('jaspr-tests.hello-world')
@@ -121,4 +158,322 @@ describe('the module loader', () => {
       'recursive-included': 'recursive-included'
     })
   }))
+  it('loads file imports', loadModule('imports-file.jaspr', null, mod => {
+    expect(mod.value).to.have.property('greeting').equal('Hello, world!')
+    expect(mod.value).to.have.property('answer').equal(120)
+    expect(mod.$import).to.have.property('hello').with.property('via').equal('file')
+  }))
+  it('detects circular file imports', failModule('import-cycle-a.jaspr', err => {
+    expect(err).to.have.property('err').equal('BadModule')
+    expect(err).to.have.property('why').equal('circular import')
+    expect(err).to.have.property('cycle').with.length(3)
+  }))
+  it('detects circular imports between concurrently loaded modules', failModule('imports-concurrent-cycle.jaspr', err => {
+    expect(err).to.have.property('err').equal('BadModule')
+    expect(err).to.have.property('why').equal('circular import')
+    expect(err).to.have.property('cycle').with.length(3)
+  }))
+  it('finds local imports on the search path', loadModule('imports-searched.jaspr', null, mod => {
+    expect(mod.value).to.have.property('values').deep.equal(['searched-value', 'literate-value'])
+  }))
+  it('rejects local imports with the wrong $module', failModule('imports-misnamed.jaspr', err => {
+    expect(err).to.have.property('err').equal('BadModule')
+    expect(err).to.have.property('$module').equal('jaspr-tests.not-misnamed')
+  }))
+  it('loads different versions of a module side by side', loadModule('imports-versions.jaspr', null, mod => {
+    expect(mod.value).to.have.property('versions').deep.equal(['one', 'two'])
+  }))
+  it('rejects imports with unsatisfied versions', failModule('imports-bad-version.jaspr', err => {
+    expect(err).to.have.property('err').equal('BadModule')
+    expect(err).to.have.property('required').equal('^2')
+    expect(err).to.have.property('found').deep.equal(['1.0'])
+  }))
+  it('rejects local imports with unsatisfied versions', failModule('imports-bad-local-version.jaspr', err => {
+    expect(err).to.have.property('err').equal('BadModule')
+    expect(err).to.have.property('required').equal('^3')
+    expect(err).to.have.property('found').deep.equal(['1.2.0'])
+  }))
+
+  it('rejects imported names that are not exported', failModule('imports-missing-names.jaspr', err => {
+    expect(err).to.have.property('err').equal('BadModule')
+    expect(err).to.have.property('names').deep.equal(['tres', 'does'])
+    expect(err).to.have.property('exports').deep.equal(['dos', 'one', 'two', 'uno'])
+    expect(err).to.have.property('suggestions').deep.equal({does: ['dos']})
+  }))
+  it('imports names matching wildcards, with prefixes and exclusions', () => {
+    const warnings: JasprObject[] = []
+    return loadModule('imports-wildcards.jaspr', null, mod => {
+      expect(mod.value).to.have.property('values').deep.equal([1, 2, 1, 1, 2])
+      expect(mod.$import).to.have.property('all').with.property('except')
+        .deep.equal(['two', 'uno', 'dos'])
+      expect(warnings).to.be.empty
+    }, {onWarning: w => warnings.push(w)})()
+  })
+  it('rejects import patterns that match no exported names', failModule('imports-unmatched-pattern.jaspr', err => {
+    expect(err).to.have.property('err').equal('BadModule')
+    expect(err).to.have.property('names').deep.equal(['x*'])
+  }))
+  it('re-exports imported names with their original identity', loadModule('imports-reexports.jaspr', null, mod => {
+    expect(mod.value).to.have.property('values').deep.equal([1, 2, 3, 1])
+    expect(mod.qualified).to.have.property('one')
+      .equal('jaspr-tests.renamed-exports.one@1.0')
+    expect(mod.qualified).to.have.property('own')
+      .equal('jaspr-tests.reexports.own@1.0')
+    expect(mod.value).to.have.property('jaspr-tests.renamed-exports.dos@1.0').equal(2)
+  }))
+  it('rejects re-exports of names that are not imported', failModule('reexports-unimported.jaspr', err => {
+    expect(err).to.have.property('err').equal('BadModule')
+    expect(err).to.have.property('exports')
+      .deep.equal({three: 'renamed.three', four: 'other.four'})
+  }))
+  it('rejects modules that do not match the module schema', failModule('bad-schema.jaspr', err => {
+    expect(err).to.have.property('err').equal('BadModule')
+    expect(err).to.have.property('why').equal('module does not match schema')
+    expect((<any[]>err.errors).map(e => e.path)).to.include.members(['/$import', '/doc.answer'])
+  }))
+  it('exports type annotations without evaluating them', loadModule('typed.jaspr', null, mod => {
+    expect(mod.value).to.have.property('three').equal(3)
+    expect(mod.type).to.have.property('add')
+      .deep.equal({args: ['number', 'number'], returns: 'number'})
+  }))
+  it('warns when an unqualified import shadows another import', () => {
+    const warnings: JasprObject[] = []
+    return loadModule('imports-shadowed.jaspr', null, mod => {
+      expect(mod.value).to.have.property('shadowed')
+      expect(warnings).to.have.length(1)
+      expect(warnings[0]).to.have.property('name').equal('which')
+    }, {onWarning: w => warnings.push(w)})()
+  })
+
+  it('reports names that are not defined', () => {
+    const diagnostics: JasprObject[] = []
+    return evalTestModule('undefined-names.jaspr', {checkMain: true},
+      (root, d) => diagnostics.push(d)
+    ).then(() => {
+      expect(diagnostics.map(d => [d.name, d.code])).to.deep.equal([
+        ['jaspr-tests.undefined-names.double@1.0', 'x'],
+        ['jaspr-tests.undefined-names.typo@1.0', 'dubble'],
+        ['$main', 'mian']
+      ])
+      expect(diagnostics[1]).to.have.property('suggestions')
+        .that.deep.equals(['double'])
+      expect(diagnostics.map(d => d.at)).to.deep.equal([
+        {filename: 'test/modules/undefined-names.jaspr', line: 7, column: 37},
+        {filename: 'test/modules/undefined-names.jaspr', line: 11, column: 35},
+        {filename: 'test/modules/undefined-names.jaspr', line: 15, column: 8}
+      ])
+    })
+  })
+
+  describe('http imports', () => {
+    let server: Server, port = 0, requests = 0, dir = ''
+    const options = () => ({
+      cacheDir: join(dir, 'cache'), lockfile: join(dir, 'jaspr.lock')
+    })
+    before(done => {
+      dir = mkdtempSync(join(tmpdir(), 'jaspr-test-'))
+      server = createServer((req, res) => {
+        requests++
+        readFile(`test/modules${req.url}`, (err, data) => {
+          if (err) { res.statusCode = 404; res.end() }
+          else res.end(data)
+        })
+      })
+      server.listen(0, 'localhost', () => {
+        port = server.address().port
+        writeFileSync(join(dir, 'imports-http.jaspr'), `
+          $schema: "http://adam.nels.onl/schema/jaspr/module"
+          $module: jaspr-tests.imports-http
+          $version: "1.0"
+          $import: {hello: "http://localhost:${port}/hello-world.jaspr"}
+          greeting: hello.hello-world
+          $export: {greeting}
+        `)
+        done()
+      })
+    })
+    after(done => server.close(() => {
+      execFileSync('rm', ['-rf', dir])
+      done()
+    }))
+
+    it('downloads modules and locks their hashes', () => loadModule(
+      join(dir, 'imports-http.jaspr'), null, mod => {
+        expect(mod.value).to.have.property('greeting').equal('Hello, world!')
+        const lock = JSON.parse(readFileSync(join(dir, 'jaspr.lock'), 'utf8'))
+        expect(lock).to.have.property('http')
+          .with.property(`http://localhost:${port}/hello-world.jaspr`)
+          .with.property('sha256').a('string').length(64)
+        expect(requests).to.equal(1)
+      }, options())())
+    it('loads locked modules from the cache', () => loadModule(
+      join(dir, 'imports-http.jaspr'), null, mod => {
+        expect(mod.value).to.have.property('greeting').equal('Hello, world!')
+        expect(requests).to.equal(1)
+      }, options())())
+    it('rejects downloads that do not match the lockfile', () => {
+      const url = `http://localhost:${port}/hello-world.jaspr`
+      writeFileSync(join(dir, 'tampered.lock'), JSON.stringify(
+        {http: {[url]: {sha256: '0'.repeat(64)}}}))
+      return failModule(join(dir, 'imports-http.jaspr'), err => {
+        expect(err).to.have.property('err').equal('BadModule')
+        expect(err).to.have.property('expected').equal('0'.repeat(64))
+      }, Object.assign(options(), {lockfile: join(dir, 'tampered.lock')}))()
+    })
+  })
+
+  describe('git imports', () => {
+    let dir = '', repo = ''
+    const options = () => ({
+      cacheDir: join(dir, 'cache'), lockfile: join(dir, 'jaspr.lock')
+    })
+    const greeter = (version: string, greeting: string) => `
+      $schema: "http://adam.nels.onl/schema/jaspr/module"
+      $module: jaspr-tests.greeter
+      $version: "${version}"
+      greeting: '${greeting}
+      $export: {greeting}
+    `
+    before(() => {
+      dir = mkdtempSync(join(tmpdir(), 'jaspr-test-'))
+      const work = join(dir, 'work')
+      repo = join(dir, 'repo.git')
+      const git = (...args: string[]) => execFileSync('git', [
+        '-C', work, '-c', 'user.name=test', '-c', 'user.email=test@example.com',
+        ...args
+      ])
+      execFileSync('git', ['init', '--quiet', work])
+      writeFileSync(join(work, 'greeter.jaspr'), greeter('1.0', 'one'))
+      git('add', '.')
+      git('commit', '--quiet', '-m', 'one')
+      git('tag', 'v1')
+      writeFileSync(join(work, 'greeter.jaspr'), greeter('2.0', 'two'))
+      git('commit', '--quiet', '-am', 'two')
+      execFileSync('git', ['clone', '--quiet', '--bare', work, repo])
+      writeFileSync(join(dir, 'imports-git.jaspr'), `
+        $schema: "http://adam.nels.onl/schema/jaspr/module"
+        $module: jaspr-tests.imports-git
+        $version: "1.0"
+        $import: {
+          old: {from: "file://${repo}", via: git, ref: v1, path: "greeter.jaspr"}
+          new: {from: "file://${repo}", via: git, module: greeter}
+        }
+        greetings: ([] old.greeting new.greeting)
+        $export: {greetings}
+      `)
+    })
+    after(() => execFileSync('rm', ['-rf', dir]))
+
+    it('checks out tags and locks their commits', () => loadModule(
+      join(dir, 'imports-git.jaspr'), null, mod => {
+        expect(mod.value).to.have.property('greetings').deep.equal(['one', 'two'])
+        const lock = JSON.parse(readFileSync(join(dir, 'jaspr.lock'), 'utf8'))
+        expect(lock).to.have.property('git')
+        expect(lock.git).to.have.property(`file://${repo}#v1`)
+          .with.property('commit').match(/^[0-9a-f]{40}$/)
+        expect(lock.git).to.have.property(`file://${repo}#HEAD`)
+          .with.property('commit').match(/^[0-9a-f]{40}$/)
+      }, options())())
+    it('rejects repositories that look like git options', () => {
+      writeFileSync(join(dir, 'imports-git-option.jaspr'), `
+        $schema: "http://adam.nels.onl/schema/jaspr/module"
+        $module: jaspr-tests.imports-git-option
+        $version: "1.0"
+        $import: {
+          opt: {from: "--upload-pack=false", via: git, path: "greeter.jaspr"}
+        }
+      `)
+      return failModule(join(dir, 'imports-git-option.jaspr'), err => {
+        expect(err).to.have.property('err').equal('BadModule')
+        expect(err).to.have.property('repo').equal('--upload-pack=false')
+      }, options())()
+    })
+    it('does not lock or cache commits that fail to check out', () => {
+      const missing = '0'.repeat(40)
+      writeFileSync(join(dir, 'imports-git-missing.jaspr'), `
+        $schema: "http://adam.nels.onl/schema/jaspr/module"
+        $module: jaspr-tests.imports-git-missing
+        $version: "1.0"
+        $import: {
+          old: {from: "file://${repo}", via: git, ref: "${missing}", path: "greeter.jaspr"}
+        }
+      `)
+      return failModule(join(dir, 'imports-git-missing.jaspr'), err => {
+        expect(err).to.have.property('commit').equal(missing)
+        const lock = JSON.parse(readFileSync(join(dir, 'jaspr.lock'), 'utf8'))
+        expect(lock.git).not.to.have.property(`file://${repo}#${missing}`)
+        const repoDir = join(dir, 'cache', 'git', sha256(`file://${repo}`))
+        expect(readdirSync(repoDir).filter(f => f.startsWith(missing))).to.be.empty
+      }, options())()
+    })
+    it('loads locked commits without the repository', () => {
+      execFileSync('rm', ['-rf', repo])
+      return loadModule(join(dir, 'imports-git.jaspr'), null, mod => {
+        expect(mod.value).to.have.property('greetings').deep.equal(['one', 'two'])
+      }, options())()
+    })
+  })
+
+  describe('precompiled modules', () => {
+    let dir = ''
+    const options = () => ({precompile: true, cacheDir: join(dir, 'cache')})
+    const writeModules = (doubled: string) => {
+      writeFileSync(join(dir, 'precompiled-macros.jaspr'), `
+        $schema: "http://adam.nels.onl/schema/jaspr/module"
+        $module: jaspr-tests.precompiled-macros
+        $version: "1.0"
+        $import: {jaspr.primitive}
+        macro.double: ($closure {} ([] "" ([] '${doubled} '${doubled})) {})
+        macro.fresh: ($closure {} ([] "" (jaspr.primitive.gensym!)) {})
+        $export: {double fresh}
+      `)
+    }
+    const waitForFile = (filename: string, tries = 50): Promise<void> =>
+      existsSync(filename) || tries <= 0 ? Promise.resolve()
+        : new Promise<void>(resolve => setTimeout(resolve, 20))
+            .then(() => waitForFile(filename, tries - 1))
+    before(() => {
+      dir = mkdtempSync(join(tmpdir(), 'jaspr-test-'))
+      writeModules('a')
+      writeFileSync(join(dir, 'precompiled.jaspr'), `
+        $schema: "http://adam.nels.onl/schema/jaspr/module"
+        $module: jaspr-tests.precompiled
+        $version: "1.0"
+        $import: {m: {from: "./precompiled-macros.jaspr", names: true}}
+        doubled: (double)
+        fresh: (fresh)
+        $export: {doubled fresh}
+      `)
+    })
+    after(() => execFileSync('rm', ['-rf', dir]))
+
+    it('reuses macroexpanded definitions', () => {
+      let hash: string | null = null
+      return loadModule(join(dir, 'precompiled.jaspr'), null, mod => {
+        expect(mod.value).to.have.property('doubled').deep.equal(['a', 'a'])
+        hash = mod.$hash
+      }, options())().then(() => {
+        const compiled = compiledPath(join(dir, 'cache'), 'compiled', <string>hash)
+        return waitForFile(compiled).then(() => {
+          // Replace the cached expansion, to check that it is used
+          const defs = JSON.parse(readFileSync(compiled, 'utf8'))
+          expect(defs).to.have.property('doubled')
+          // fresh's macro calls an impure function, so it is expanded again
+          expect(defs).not.to.have.property('fresh')
+          writeFileSync(compiled, JSON.stringify({doubled: ['', 'cached']}))
+        })
+      }).then(loadModule(join(dir, 'precompiled.jaspr'), null, mod => {
+        expect(mod.value).to.have.property('doubled').equal('cached')
+      }, options()))
+    })
+    it('recompiles modules when a dependency changes', () => {
+      writeModules('b')
+      let hash: string | null = null
+      return loadModule(join(dir, 'precompiled.jaspr'), null, mod => {
+        expect(mod.value).to.have.property('doubled').deep.equal(['b', 'b'])
+        hash = mod.$hash
+      }, options())().then(() =>
+        waitForFile(compiledPath(join(dir, 'cache'), 'compiled', <string>hash)))
+    })
+  })
 })
@@ -1,5 +1,6 @@
 import {expect} from 'chai'
 import Parser from '../src/Parser'
+import {locationOf} from '../src/SourceLocation'
 import {readFileSync} from 'fs'
 require('source-map-support').install({
   handleUncaughtExceptions: false
@@ -230,6 +231,14 @@ describe('the parser', () => {
     expect(parse('[({foo: "bar"})]')).to.deep.equal([[{foo: ["", "bar"]}]])
     expect(parse('([{foo: "bar"}])')).to.deep.equal([[{foo: "bar"}]])
   })
+  it('records the source locations of arrays and objects', () => {
+    const result: any = parse('{\n  a: (foo\n    (bar 1))\n  b: [1 {x: 2}]\n}')
+    expect(locationOf(result)).to.deep.equal({filename: '<test>', line: 1, column: 1})
+    expect(locationOf(result.a)).to.deep.equal({filename: '<test>', line: 2, column: 6})
+    expect(locationOf(result.a[1])).to.deep.equal({filename: '<test>', line: 3, column: 5})
+    expect(locationOf(result.b[1])).to.deep.equal({filename: '<test>', line: 4, column: 9})
+    expect(locationOf(result.b[0])).to.equal(null)
+  })
   it("can parse the project's JSON configuration files", () => {
     const file1 = readFileSync('package.json').toString()
     expect(parse(file1, 'package.json')).to.deep.equal(JSON.parse(file1))
@@ -0,0 +1,82 @@
+import {expect} from 'chai'
+import {schemaErrors, isValid, validationError} from '../src/Schema'
+
+describe('JSON Schema validation', () => {
+  it('checks types', () => {
+    expect(isValid({type: 'string'}, 'foo')).to.be.true
+    expect(isValid({type: 'number'}, 1)).to.be.true
+    expect(isValid({type: 'integer'}, 1.5)).to.be.false
+    expect(isValid({type: ['null', 'array']}, [])).to.be.true
+    expect(schemaErrors({type: 'object'}, [])).to.deep.equal([
+      {path: '', keyword: 'type', why: 'expected object, got array'}
+    ])
+  })
+  it('accepts boolean schemas', () => {
+    expect(isValid(true, {a: 1})).to.be.true
+    expect(isValid(false, null)).to.be.false
+  })
+  it('checks enum and const', () => {
+    expect(isValid({enum: [1, 'a', [2]]}, [2])).to.be.true
+    expect(isValid({enum: [1, 'a']}, 'b')).to.be.false
+    expect(isValid({const: {a: [1]}}, {a: [1]})).to.be.true
+  })
+  it('checks numeric and length bounds', () => {
+    const range = {minimum: 1, exclusiveMaximum: 10, multipleOf: 0.5}
+    expect(isValid(range, 9.5)).to.be.true
+    expect(schemaErrors(range, 10).map(e => e.keyword))
+      .to.deep.equal(['exclusiveMaximum'])
+    expect(schemaErrors(range, 0.3).map(e => e.keyword))
+      .to.deep.equal(['minimum', 'multipleOf'])
+    expect(isValid({minLength: 2, maxLength: 2}, '🐈🐕')).to.be.true
+    expect(isValid({minItems: 1}, [])).to.be.false
+    expect(isValid({pattern: '^a+$'}, 'aab')).to.be.false
+  })
+  it('reports the JSON pointer paths of nested errors', () => {
+    const schema = {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        tags: {items: {type: 'string'}},
+        'a/b': {type: 'number'}
+      },
+      additionalProperties: false
+    }
+    expect(schemaErrors(schema, {tags: ['x', 1], 'a/b': 'c', extra: 1}))
+      .to.deep.equal([
+        {path: '', keyword: 'required', why: 'missing required property name'},
+        {path: '/tags/1', keyword: 'type', why: 'expected string, got integer'},
+        {path: '/a~1b', keyword: 'type', why: 'expected number, got string'},
+        {path: '/extra', keyword: 'additionalProperties',
+         why: 'property extra is not allowed'}
+      ])
+  })
+  it('checks combinators', () => {
+    const schema = {oneOf: [{type: 'number'}, {minimum: 0}]}
+    expect(isValid(schema, -1)).to.be.true
+    expect(isValid(schema, 1)).to.be.false
+    expect(isValid(schema, 'x')).to.be.true
+    expect(isValid({anyOf: [{type: 'null'}, {type: 'boolean'}]}, 0)).to.be.false
+    expect(isValid({allOf: [{minimum: 1}, {maximum: 2}]}, 3)).to.be.false
+    expect(isValid({not: {type: 'string'}}, 'x')).to.be.false
+  })
+  it('follows local $refs', () => {
+    const tree = {
+      definitions: {
+        node: {type: 'array', items: {$ref: '#/definitions/tree'}},
+        tree: {anyOf: [{type: 'number'}, {$ref: '#/definitions/node'}]}
+      },
+      $ref: '#/definitions/tree'
+    }
+    expect(isValid(tree, [1, [2, [3]], []])).to.be.true
+    expect(isValid(tree, [1, ['x']])).to.be.false
+    expect(schemaErrors({$ref: '#/nowhere'}, 1)).to.have.length(1)
+      .and.nested.property('[0].keyword').equal('$ref')
+  })
+  it('returns a NotValid error for invalid values', () => {
+    expect(validationError({type: 'string'}, 'ok')).to.be.null
+    expect(validationError({type: 'string'}, 1)).to.deep.equal({
+      err: 'NotValid', why: 'value does not match schema', value: 1,
+      errors: [{path: '', keyword: 'type', why: 'expected string, got integer'}]
+    })
+  })
+})
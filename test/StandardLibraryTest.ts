@@ -1,7 +1,7 @@
 import {
   Jaspr, JasprError, resolveFully, toString, toBool, isObject, magicSymbol
 } from '../src/Jaspr'
-import {Root, Branch} from '../src/Fiber'
+import {Root, Fiber} from '../src/Fiber'
 import {expandAndEval, waitFor} from '../src/Interpreter'
 import {readModuleFile, evalModule, ModuleSource, Module} from '../src/Module'
 import prim from '../src/JasprPrimitive'
@@ -24,12 +24,12 @@ describe('the standard library', () => {
   before(() => {
     stdlib = new Promise<Module>((resolve, reject) => {
       let errored = false
-      function fail(msg: string, err: Jaspr, raisedBy?: Branch): void {
+      function fail(msg: string, err: Jaspr, raisedBy?: Fiber | null): void {
         reject(new AssertionError(
-          `\n${msg}: ${prettyPrint(err, false)}` /*+
-          (raisedBy ? `\n\nStack trace:\n${raisedBy.stackTraceString(false)}` : '')*/))
+          `\n${msg}: ${prettyPrint(err, false)}` +
+          (raisedBy ? `\n\nStack trace:\n${raisedBy.stackTraceString(false)}` : '')))
       }
-      const env = root = new Root((root, err, raisedBy, cb) => {
+      const env = root = new Root((root, err, raisedIn, cb, raisedBy) => {
         if (errored) return cb(null)
         errored = true
         resolveFully(err, (resErr, err) => {
@@ -0,0 +1,85 @@
+import {expect} from 'chai'
+import {compareVersions, isVersionConstraint, satisfies} from '../src/Version'
+
+describe('versions', () => {
+  it('compares segments numerically', () => {
+    expect(compareVersions('1.10', '1.9')).to.be.above(0)
+    expect(compareVersions('0.1.171228', '0.2')).to.be.below(0)
+    expect(compareVersions('2.0', '2.0')).to.equal(0)
+  })
+  it('compares non-numeric segments lexically', () => {
+    expect(compareVersions('1.a', '1.b')).to.be.below(0)
+    expect(compareVersions('1.b', '1.a')).to.be.above(0)
+  })
+  it('treats missing segments as 0', () => {
+    expect(compareVersions('1', '1.0.0')).to.equal(0)
+    expect(compareVersions('1', '1.0.1')).to.be.below(0)
+    expect(satisfies('1.0.0', '1')).to.be.true
+    expect(satisfies('1.2', '=1.2.0')).to.be.true
+  })
+  it('orders pre-releases before their releases', () => {
+    expect(compareVersions('1.0-beta', '1.0')).to.be.below(0)
+    expect(compareVersions('1.0.0-beta', '1.0')).to.be.below(0)
+    expect(compareVersions('1.0-beta', '0.9')).to.be.above(0)
+    expect(compareVersions('1.0-alpha', '1.0-beta')).to.be.below(0)
+    expect(compareVersions('1.0-beta.2', '1.0-beta.10')).to.be.below(0)
+    expect(compareVersions('1.0-beta', '1.0-beta.0')).to.equal(0)
+  })
+})
+
+describe('version constraints', () => {
+  it('matches comparisons', () => {
+    expect(satisfies('1.2', '>1.1')).to.be.true
+    expect(satisfies('1.1', '>1.1')).to.be.false
+    expect(satisfies('1.1', '>=1.1')).to.be.true
+    expect(satisfies('1.1', '<1.1')).to.be.false
+    expect(satisfies('1.1', '<=1.1')).to.be.true
+    expect(satisfies('1.1-beta', '<1.1')).to.be.true
+  })
+  it('matches all of several comparisons', () => {
+    expect(satisfies('1.5', '>=1.2 <2')).to.be.true
+    expect(satisfies('2.0', '>=1.2 <2')).to.be.false
+    expect(satisfies('1.5', ' >=1.2   <2 ')).to.be.true
+  })
+  it('matches any version with * or an empty constraint', () => {
+    expect(satisfies('0.0.1', '*')).to.be.true
+    expect(satisfies('3-rc', '')).to.be.true
+  })
+  it('matches caret ranges', () => {
+    expect(satisfies('1.2', '^1.2')).to.be.true
+    expect(satisfies('1.9.9', '^1.2')).to.be.true
+    expect(satisfies('2.0', '^1.2')).to.be.false
+    expect(satisfies('1.1', '^1.2')).to.be.false
+    expect(satisfies('0.3.5', '^0.3.1')).to.be.true
+    expect(satisfies('0.4', '^0.3.1')).to.be.false
+    expect(satisfies('0.0.3', '^0.0.3')).to.be.true
+    expect(satisfies('0.0.4', '^0.0.3')).to.be.false
+    expect(satisfies('0.9', '^0')).to.be.true
+    expect(satisfies('1.0', '^0')).to.be.false
+  })
+  it('matches tilde ranges', () => {
+    expect(satisfies('1.2.9', '~1.2.3')).to.be.true
+    expect(satisfies('1.3', '~1.2.3')).to.be.false
+    expect(satisfies('1.2.2', '~1.2.3')).to.be.false
+    expect(satisfies('1.9', '~1')).to.be.true
+    expect(satisfies('2.0', '~1')).to.be.false
+  })
+  it('does not match pre-releases of the upper bound of a range', () => {
+    expect(satisfies('2.0-beta', '^1.2')).to.be.false
+    expect(satisfies('1.3-beta', '~1.2')).to.be.false
+    expect(satisfies('1.5-beta', '^1.2')).to.be.true
+    expect(satisfies('1.2-beta', '^1.2')).to.be.false
+    expect(satisfies('1.2-beta', '^1.2-alpha')).to.be.true
+  })
+  it('recognizes valid constraints', () => {
+    for (let c of ['1', '=1.0', '^1.2', '~0.1', '>=1 <2', '*', '', '1.0-beta']) {
+      expect(isVersionConstraint(c), c).to.be.true
+    }
+  })
+  it('rejects invalid constraints', () => {
+    for (let c of ['>>1', '^', '1.*', '*1', '~>1', '<', '=']) {
+      expect(isVersionConstraint(c), c).to.be.false
+      expect(satisfies('1', c), c).to.be.false
+    }
+  })
+})